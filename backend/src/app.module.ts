@@ -19,14 +19,17 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { QueryController } from './endpoints/query/query.controller';
 import { QueryService } from './endpoints/query/query.service';
-import { VectorMappingController } from './endpoints/vector_mapping/vector-mapping.controller';
-import { VectorMappingService } from './endpoints/vector_mapping/vector-mapping.service';
+import { VectorMappingModule } from './endpoints/vector_mapping/vector-mapping.module';
 import { IonosController } from './endpoints/ionos-rest/ionos.controller';
-import { IonosService } from './endpoints/ionos-rest/ionos.service';
 import { HttpModule } from '@nestjs/axios';
 import { RagModule } from './endpoints/ionos-rest/rag.module';
 import { OllamaModule } from './endpoints/ollama-rest/ollama.module';
 import { OpeaModule } from './endpoints/opea-rest/opea.module';
+import { LlmModule } from './endpoints/llm/llm.module';
+import { AlertaModule } from './endpoints/alerta/alerta.module';
+import { AuthModule } from './endpoints/auth/auth.module';
+import { SessionsModule } from './endpoints/sessions/sessions.module';
+import { SafetyModule } from './endpoints/safety/safety.module';
 
 @Module({
   imports: [
@@ -37,8 +40,14 @@ import { OpeaModule } from './endpoints/opea-rest/opea.module';
     RagModule,
     OllamaModule,
     OpeaModule,
+    LlmModule,
+    AlertaModule,
+    AuthModule,
+    SessionsModule,
+    SafetyModule,
+    VectorMappingModule,
   ],
-  controllers: [AppController, QueryController, VectorMappingController, IonosController],
-  providers: [AppService, QueryService, VectorMappingService, IonosService],
+  controllers: [AppController, QueryController, IonosController],
+  providers: [AppService, QueryService],
 })
 export class AppModule {}
@@ -0,0 +1,64 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { IdentityService } from '../auth/identity.service';
+import { AlertActionsService } from './alert-actions.service';
+import { AlertActionDto } from './dto/alert-action.dto';
+
+/**
+ * Alert actions from the chat. Requires `Authorization: Bearer <route token>`;
+ * only alerts on the caller's own assets can be acted on or audited.
+ */
+@Controller('alerts')
+export class AlertActionsController {
+  constructor(
+    private readonly actions: AlertActionsService,
+    private readonly identity: IdentityService,
+  ) {}
+
+  @Post(':id/action')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe())
+  async act(
+    @Param('id') id: string,
+    @Body() dto: AlertActionDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.actions.perform(user, id, dto);
+  }
+
+  @Get(':id/audit')
+  async audit(
+    @Param('id') id: string,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.actions.history(user, id);
+  }
+}
@@ -0,0 +1,99 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { ForbiddenException } from '@nestjs/common';
+import { UserIdentity } from '../auth/identity.service';
+import { VectorMappingService } from '../vector_mapping/vector-mapping.service';
+import { AlertActionsService } from './alert-actions.service';
+import { AlertaService } from './alerta.service';
+
+const acme: UserIdentity = {
+  email: 'op@acme.example',
+  companyId: 'acme',
+  roles: [],
+};
+
+function setup(
+  alert: Record<string, any>,
+  asset: { companyId?: string } | null = {},
+) {
+  const alerta = {
+    getAlert: jest.fn().mockResolvedValue(alert),
+    actOnAlert: jest.fn().mockResolvedValue(undefined),
+    addNote: jest.fn().mockResolvedValue(undefined),
+  };
+  const mappings = { findAsset: jest.fn().mockResolvedValue(asset) };
+  const service = new AlertActionsService(
+    alerta as unknown as AlertaService,
+    mappings as unknown as VectorMappingService,
+  );
+  // no MongoDB in tests
+  jest
+    .spyOn(
+      service as unknown as { audit: () => Promise<string | null> },
+      'audit',
+    )
+    .mockResolvedValue('audit-1');
+  return { service, alerta };
+}
+
+describe('AlertActionsService', () => {
+  const alert = { id: 'a1', resource: 'urn:iff:asset:1', status: 'open' };
+
+  it("acts on alerts of the caller's company", async () => {
+    const { service, alerta } = setup(alert, { companyId: 'acme' });
+    await expect(
+      service.perform(acme, 'a1', { action: 'ack' }),
+    ).resolves.toMatchObject({ id: 'a1', action: 'ack', auditId: 'audit-1' });
+    expect(alerta.actOnAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses alerts owned by another company', async () => {
+    for (const [a, asset] of [
+      [alert, { companyId: 'globex' }],
+      [{ ...alert, customer: 'globex' }, { companyId: 'acme' }],
+      [{ ...alert, customer: 'globex' }, {}],
+    ] as const) {
+      const { service, alerta } = setup(a, asset);
+      await expect(
+        service.perform(acme, 'a1', { action: 'close' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(alerta.actOnAlert).not.toHaveBeenCalled();
+    }
+  });
+
+  it('refuses alerts with no recorded owner or on unknown assets', async () => {
+    for (const asset of [{}, null]) {
+      const { service, alerta } = setup(alert, asset);
+      await expect(
+        service.perform(acme, 'a1', { action: 'shelve', hours: 2 }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(service.history(acme, 'a1')).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(alerta.actOnAlert).not.toHaveBeenCalled();
+    }
+  });
+
+  it('refuses callers without a company', async () => {
+    const { service } = setup(alert, { companyId: 'acme' });
+    await expect(
+      service.perform({ ...acme, companyId: undefined }, 'a1', {
+        action: 'ack',
+      }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
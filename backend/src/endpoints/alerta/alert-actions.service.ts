@@ -0,0 +1,192 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MongoClient } from 'mongodb';
+import { UserIdentity } from '../auth/identity.service';
+import { VectorMappingService } from '../vector_mapping/vector-mapping.service';
+import { AlertaService } from './alerta.service';
+import { AlertActionDto, ALERT_ACTION_KINDS } from './dto/alert-action.dto';
+
+export interface AlertAuditRecord {
+  at: Date;
+  user: string;
+  companyId?: string;
+  alertId: string;
+  resource?: string;
+  event?: string;
+  action: AlertActionDto['action'];
+  hours?: number;
+  text?: string;
+  outcome: 'ok' | 'failed';
+  error?: string;
+}
+
+/** Upper bound of a shelve duration, as in AlertActionDto. */
+const MAX_SHELVE_HOURS = 720;
+
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+/** Runs alert actions requested from the chat and keeps an audit trail in MongoDB. */
+@Injectable()
+export class AlertActionsService {
+  private readonly log = new Logger(AlertActionsService.name);
+  private client: MongoClient | null = null;
+
+  private readonly uri = process.env.MONGODB_URI ?? '';
+  private readonly dbName = process.env.MONGODB_DB ?? 'admin';
+  private readonly colName = process.env.MONGODB_AUDIT_COL ?? 'xana_audit';
+
+  constructor(
+    private readonly alerta: AlertaService,
+    private readonly vectorMappings: VectorMappingService,
+  ) {}
+
+  private async getClient(): Promise<MongoClient> {
+    if (this.client) return this.client;
+    this.client = new MongoClient(this.uri);
+    await this.client.connect();
+    return this.client;
+  }
+
+  private async audit(record: AlertAuditRecord): Promise<string | null> {
+    try {
+      const cli = await this.getClient();
+      const res = await cli
+        .db(this.dbName)
+        .collection<AlertAuditRecord>(this.colName)
+        .insertOne(record);
+      return String(res.insertedId);
+    } catch (e) {
+      // the Alerta change already happened; keep it in the log at least
+      this.log.error(
+        `[AUDIT] Could not store ${JSON.stringify(record)}: ${errorMessage(e)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Loads the alert and checks that it belongs to the caller: its resource
+   * must be a known asset, and the alert (`customer`) or the asset mapping
+   * (`company_id`) must name the caller's company. Alerts with no recorded
+   * owner are refused, as are alerts where any recorded owner differs.
+   */
+  private async authorizedAlert(user: UserIdentity, alertId: string) {
+    if (!user.companyId) {
+      throw new ForbiddenException('No company on the route token');
+    }
+    const alert = await this.alerta.getAlert(alertId).catch(() => null);
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+    const asset = await this.vectorMappings.findAsset(
+      String(alert.resource ?? ''),
+    );
+    const owners = [alert.customer, asset?.companyId].filter(
+      (c): c is string => typeof c === 'string' && c !== '',
+    );
+    if (!asset || !owners.length || owners.some((c) => c !== user.companyId)) {
+      throw new ForbiddenException(`Alert ${alertId} is not yours to act on`);
+    }
+    return alert;
+  }
+
+  async perform(user: UserIdentity, alertId: string, dto: AlertActionDto) {
+    if (!ALERT_ACTION_KINDS.includes(dto.action)) {
+      throw new BadRequestException(`Unknown action "${dto.action}"`);
+    }
+    if (dto.action === 'note' && !dto.text?.trim()) {
+      throw new BadRequestException('A note needs text');
+    }
+    if (
+      dto.action === 'shelve' &&
+      !(Number(dto.hours) >= 1 && Number(dto.hours) <= MAX_SHELVE_HOURS)
+    ) {
+      throw new BadRequestException(
+        `Shelving needs a duration of 1 to ${MAX_SHELVE_HOURS} hours`,
+      );
+    }
+
+    const alert = await this.authorizedAlert(user, alertId);
+
+    const comment = dto.text?.trim();
+    const text = `${comment ? `${comment} ` : ''}(via XANA by ${user.email})`;
+    const record: AlertAuditRecord = {
+      at: new Date(),
+      user: user.email,
+      companyId: user.companyId,
+      alertId,
+      resource: String(alert.resource ?? ''),
+      event: String(alert.event ?? ''),
+      action: dto.action,
+      ...(dto.action === 'shelve' ? { hours: Number(dto.hours) } : {}),
+      ...(comment ? { text: comment } : {}),
+      outcome: 'ok',
+    };
+
+    try {
+      if (dto.action === 'note') {
+        await this.alerta.addNote(alertId, text);
+      } else {
+        const timeout =
+          dto.action === 'shelve' ? Number(dto.hours) * 3600 : undefined;
+        await this.alerta.actOnAlert(alertId, dto.action, text, timeout);
+      }
+    } catch (e) {
+      await this.audit({
+        ...record,
+        outcome: 'failed',
+        error: errorMessage(e),
+      });
+      throw e;
+    }
+
+    const auditId = await this.audit(record);
+    this.log.log(`[ALERT] ${user.email} ${dto.action} ${alertId}`);
+
+    const updated = await this.alerta.getAlert(alertId).catch(() => null);
+    return {
+      id: alertId,
+      action: dto.action,
+      status: String(updated?.status ?? alert.status ?? ''),
+      auditId,
+    };
+  }
+
+  /** Audit trail of one alert, newest first, limited to the caller's company. */
+  async history(
+    user: UserIdentity,
+    alertId: string,
+  ): Promise<AlertAuditRecord[]> {
+    await this.authorizedAlert(user, alertId);
+    const cli = await this.getClient();
+    return cli
+      .db(this.dbName)
+      .collection<AlertAuditRecord>(this.colName)
+      .find({ alertId, companyId: user.companyId }, { projection: { _id: 0 } })
+      .sort({ at: -1 })
+      .limit(100)
+      .toArray();
+  }
+}
@@ -0,0 +1,49 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { alertRetrievalQuery, describeAlertEvent } from './alert-text';
+
+describe('alert-text', () => {
+  it('describes SHACL constraint events', () => {
+    expect(
+      describeAlertEvent(
+        'CountConstraintComponent(https://industry-fusion.org/base/v0.1/filter)',
+      ),
+    ).toBe('count constraint violated on filter');
+    expect(
+      describeAlertEvent(
+        'MinInclusiveConstraintComponent(https://industry-fusion.org/base/v0.1/spindle_load)',
+      ),
+    ).toBe('min inclusive constraint violated on spindle load');
+  });
+
+  it('keeps plain events readable', () => {
+    expect(describeAlertEvent('HighTemperature')).toBe('high temperature');
+    expect(describeAlertEvent(undefined)).toBe('');
+  });
+
+  it('builds a retrieval query from event and text', () => {
+    expect(
+      alertRetrievalQuery({
+        event:
+          'CountConstraintComponent(https://industry-fusion.org/base/v0.1/filter)',
+        text: 'Model validation for https://industry-fusion.org/base/v0.1/filter failed',
+      }),
+    ).toBe(
+      'count constraint violated on filter. Model validation for filter failed. cause troubleshooting remedy',
+    );
+  });
+});
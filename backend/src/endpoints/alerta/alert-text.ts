@@ -0,0 +1,59 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/** Local name of an IRI: "https://…/v0.1/spindle_load" → "spindle_load". */
+function localName(iri: string): string {
+  return iri.split(/[/#]/).pop() || iri;
+}
+
+/** "CountConstraintComponent" → "count constraint" */
+function humanize(name: string): string {
+  return name
+    .replace(/ConstraintComponent$/, 'Constraint')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Readable form of an Alerta event. PDT/SHACL events look like
+ * "CountConstraintComponent(https://industry-fusion.org/base/v0.1/filter)".
+ */
+export function describeAlertEvent(event?: string): string {
+  if (!event) return '';
+  const m = /^(\w+)\((.*)\)$/.exec(event.trim());
+  if (!m) return humanize(event.replace(/https?:\/\/\S+/g, localName));
+  const [, constraint, args] = m;
+  const targets = args
+    .split(',')
+    .map((a) => humanize(localName(a.trim())))
+    .filter(Boolean);
+  return `${humanize(constraint)} violated on ${targets.join(', ')}`;
+}
+
+/** Text used to search the manuals for causes and fixes of an alert. */
+export function alertRetrievalQuery(alert: Record<string, any>): string {
+  const parts = [
+    describeAlertEvent(
+      typeof alert.event === 'string' ? alert.event : undefined,
+    ),
+    typeof alert.text === 'string'
+      ? alert.text.replace(/https?:\/\/\S+/g, localName)
+      : '',
+    'cause troubleshooting remedy',
+  ];
+  return parts.filter(Boolean).join('. ');
+}
@@ -0,0 +1,196 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+
+export const ALERT_SEVERITIES = [
+  'security',
+  'critical',
+  'major',
+  'minor',
+  'warning',
+  'indeterminate',
+  'informational',
+  'normal',
+  'ok',
+  'cleared',
+  'debug',
+  'trace',
+  'unknown',
+] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export const ALERT_STATUSES = [
+  'open',
+  'assign',
+  'ack',
+  'closed',
+  'expired',
+  'blackout',
+  'shelved',
+  'unknown',
+] as const;
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export interface AlertFilter {
+  resource?: string | string[];
+  severity?: AlertSeverity[];
+  status?: AlertStatus[];
+  environment?: string;
+  /** ISO-8601; matched against the alert's last receive time */
+  from?: string;
+  to?: string;
+}
+
+export type AlertAction =
+  | 'ack'
+  | 'unack'
+  | 'shelve'
+  | 'unshelve'
+  | 'close'
+  | 'open';
+
+export interface AlertPage {
+  alerts: Record<string, any>[];
+  /** total reported by Alerta for the filter */
+  total: number;
+  /** true when ALERTA_MAX_PAGES stopped the paging early */
+  truncated: boolean;
+}
+
+/** Thin client for the Alerta REST API (https://docs.alerta.io/api/reference.html). */
+@Injectable()
+export class AlertaService {
+  private readonly log = new Logger(AlertaService.name);
+  private readonly alertsUrl = process.env.ALERTA_API_URL ?? '';
+  // ALERTA_API_URL points at the /alerts collection; single-alert routes hang off the API root
+  private readonly apiBase =
+    process.env.ALERTA_BASE_URL ?? this.alertsUrl.replace(/\/alerts\/?$/, '');
+  private readonly pageSize = parseInt(
+    process.env.ALERTA_PAGE_SIZE ?? '200',
+    10,
+  );
+  private readonly maxPages = parseInt(
+    process.env.ALERTA_MAX_PAGES ?? '10',
+    10,
+  );
+
+  constructor(private readonly http: HttpService) {}
+
+  private headers() {
+    return {
+      Authorization: `Key ${process.env.ALERTA_API_KEY}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+  }
+
+  private toParams(filter: AlertFilter, page: number): URLSearchParams {
+    const params = new URLSearchParams();
+    const many = (key: string, values?: string | readonly string[]) => {
+      for (const v of typeof values === 'string' ? [values] : (values ?? [])) {
+        params.append(key, v);
+      }
+    };
+    many('resource', filter.resource);
+    many('severity', filter.severity);
+    many('status', filter.status);
+    if (filter.environment) params.append('environment', filter.environment);
+    if (filter.from) params.append('from-date', filter.from);
+    if (filter.to) params.append('to-date', filter.to);
+    params.append('page', String(page));
+    params.append('page-size', String(this.pageSize));
+    return params;
+  }
+
+  /**
+   * All alerts matching the filter, following Alerta's pagination until
+   * the last page or ALERTA_MAX_PAGES.
+   */
+  async listAlerts(filter: AlertFilter): Promise<AlertPage> {
+    if (!this.alertsUrl) {
+      throw new Error('ALERTA_API_URL not configured');
+    }
+
+    const alerts: Record<string, any>[] = [];
+    let total = 0;
+    let more = false;
+    let page = 1;
+    do {
+      const res = await firstValueFrom(
+        this.http.get<{
+          alerts?: Record<string, any>[];
+          total?: number;
+          more?: boolean;
+        }>(`${this.alertsUrl}?${this.toParams(filter, page)}`, {
+          headers: this.headers(),
+        }),
+      );
+      alerts.push(...(res.data.alerts ?? []));
+      total = res.data.total ?? alerts.length;
+      more = !!res.data.more;
+      page++;
+    } while (more && page <= this.maxPages);
+
+    if (more) {
+      this.log.warn(
+        `[ALERTA] ${total} alerts match, returning the first ${alerts.length} (ALERTA_MAX_PAGES=${this.maxPages})`,
+      );
+    }
+    return { alerts, total, truncated: more };
+  }
+
+  async getAlert(id: string): Promise<Record<string, any> | null> {
+    const res = await firstValueFrom(
+      this.http.get<{ alert?: Record<string, any> }>(
+        `${this.apiBase}/alert/${encodeURIComponent(id)}`,
+        { headers: this.headers() },
+      ),
+    );
+    return res.data.alert ?? null;
+  }
+
+  /**
+   * Changes an alert's status. `timeout` (seconds) applies to ack/shelve;
+   * Alerta reopens the alert when it runs out.
+   */
+  async actOnAlert(
+    id: string,
+    action: AlertAction,
+    text: string,
+    timeout?: number,
+  ): Promise<void> {
+    await firstValueFrom(
+      this.http.put(
+        `${this.apiBase}/alert/${encodeURIComponent(id)}/action`,
+        { action, text, ...(timeout ? { timeout } : {}) },
+        { headers: this.headers() },
+      ),
+    );
+  }
+
+  async addNote(id: string, text: string): Promise<void> {
+    await firstValueFrom(
+      this.http.put(
+        `${this.apiBase}/alert/${encodeURIComponent(id)}/note`,
+        { text },
+        { headers: this.headers() },
+      ),
+    );
+  }
+}
@@ -0,0 +1,37 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const ALERT_ACTION_KINDS = ['ack', 'shelve', 'close', 'note'] as const;
+export type AlertActionKind = (typeof ALERT_ACTION_KINDS)[number];
+
+export class AlertActionDto {
+  @IsIn(ALERT_ACTION_KINDS) action!: AlertActionKind;
+
+  /** shelve duration */
+  @IsOptional() @IsNumber() @Min(1) @Max(720) hours?: number;
+
+  /** note text, or an optional comment for the other actions */
+  @IsOptional() @IsString() text?: string;
+}
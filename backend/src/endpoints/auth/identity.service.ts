@@ -0,0 +1,87 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { decodeJwt, errors, jwtVerify } from 'jose';
+import { unmask } from './route-token';
+
+export interface UserIdentity {
+  email: string;
+  companyId?: string;
+  // `roles` / `role` claims of the registry token
+  roles: string[];
+}
+
+function claimRoles(claims: { roles?: unknown; role?: unknown }): string[] {
+  const raw = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+  return raw.filter((r): r is string => typeof r === 'string' && !!r);
+}
+
+/** Resolves the signed-in user from the route token the frontend was opened with. */
+@Injectable()
+export class IdentityService {
+  private readonly SECRET_KEY = process.env.SECRET_KEY;
+  private readonly MASK_SECRET = process.env.MASK_SECRET;
+
+  async fromRouteToken(routeToken?: string): Promise<UserIdentity> {
+    if (!routeToken) {
+      throw new UnauthorizedException('Missing token');
+    }
+    if (!this.SECRET_KEY || !this.MASK_SECRET) {
+      throw new UnauthorizedException('Authentication is not configured');
+    }
+
+    let registryJwt: string;
+    try {
+      const { payload } = await jwtVerify(
+        routeToken,
+        new TextEncoder().encode(this.SECRET_KEY),
+      );
+      registryJwt = unmask(String(payload.m), this.MASK_SECRET);
+    } catch (err) {
+      if (err instanceof errors.JWTExpired) {
+        throw new UnauthorizedException('Token has expired');
+      }
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    let claims: {
+      sub?: string;
+      user?: unknown;
+      roles?: unknown;
+      role?: unknown;
+    };
+    try {
+      claims = decodeJwt(registryJwt);
+    } catch {
+      throw new UnauthorizedException('Cannot decode registryJwt');
+    }
+    if (typeof claims.user !== 'string' || !claims.user) {
+      throw new UnauthorizedException('Cannot decode registryJwt');
+    }
+    return {
+      email: claims.user,
+      companyId: claims.sub,
+      roles: claimRoles(claims),
+    };
+  }
+
+  /** Same as fromRouteToken for an `Authorization: Bearer <token>` header. */
+  fromAuthorizationHeader(header?: string): Promise<UserIdentity> {
+    const token = /^Bearer\s+(.+)$/i.exec(header ?? '')?.[1];
+    return this.fromRouteToken(token);
+  }
+}
@@ -0,0 +1,39 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+// The IFX suite opens XANA with `?token=<jwt>` signed with SECRET_KEY whose
+// `m` claim is the registry JWT XOR-masked with MASK_SECRET.
+
+export function mask(input: string, key: string): string {
+  return input
+    .split('')
+    .map((char, i) =>
+      (char.charCodeAt(0) ^ key.charCodeAt(i % key.length))
+        .toString(16)
+        .padStart(2, '0'),
+    )
+    .join('');
+}
+
+export function unmask(masked: string, key: string): string {
+  if (!key) {
+    throw new Error('Mask secret not defined');
+  }
+  const bytes = masked.match(/.{1,2}/g)!.map((h) => parseInt(h, 16));
+  return String.fromCharCode(
+    ...bytes.map((b, i) => b ^ key.charCodeAt(i % key.length)),
+  );
+}
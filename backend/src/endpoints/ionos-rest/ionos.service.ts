@@ -17,6 +17,8 @@
 import { Injectable } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { readChatCompletionStream } from '../llm/openai-stream';
+import { EmbeddingProvider, LlmProvider, ProviderName } from '../llm/llm-provider.interface';
 
 type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
 export interface ChatMessage {
@@ -25,7 +27,9 @@ export interface ChatMessage {
 }
 
 @Injectable()
-export class IonosService {
+export class IonosService implements LlmProvider, EmbeddingProvider {
+    readonly name: ProviderName = 'ionos';
+    readonly model = 'meta-llama/Llama-3.3-70B-Instruct';
     private readonly apiKey = process.env.COMPLETIONS_API_KEY;
     private readonly baseUrl = process.env.COMPLETIONS_API_URL;
 
@@ -40,7 +44,7 @@ export class IonosService {
     }) {
         const url = `${this.baseUrl}/v1/chat/completions`;
         const body = {
-            model: "meta-llama/Llama-3.3-70B-Instruct",
+            model: this.model,
             messages: params.messages,
             temperature: params.temperature ?? 0.3,
             max_tokens: params.maxTokens ?? 1024,
@@ -59,6 +63,36 @@ export class IonosService {
         return resp.data; // standard OpenAI-compatible response
     }
 
+    /** (1b) Chat completion streamed as content deltas */
+    async *chatCompletionStream(params: {
+        messages: ChatMessage[];
+        temperature?: number;
+        maxTokens?: number;
+        extra?: Record<string, any>;
+    }): AsyncGenerator<string> {
+        const url = `${this.baseUrl}/v1/chat/completions`;
+        const body = {
+            model: this.model,
+            messages: params.messages,
+            temperature: params.temperature ?? 0.3,
+            max_tokens: params.maxTokens ?? 1024,
+            ...(params.extra ?? {}),
+            stream: true,
+        };
+
+        const resp = await firstValueFrom(
+            this.http.post(url, body, {
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json',
+                    'Accept': 'text/event-stream',
+                },
+                responseType: 'stream',
+            }),
+        );
+        yield* readChatCompletionStream(resp.data);
+    }
+
     /** (2) Embeddings */
     async createEmbeddings(params: {                 // e.g. "bge-m3" or your IONOS embedding model
         input: string | string[];        // text or batch
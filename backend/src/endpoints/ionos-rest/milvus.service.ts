@@ -18,6 +18,7 @@
 import { Injectable } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { DEFAULT_RRF_K, reciprocalRankFusion } from './rank-fusion';
 
 type DocInput = {
     name: string;
@@ -27,6 +28,40 @@ type DocInput = {
     vector: number[];         // embedding to store in Milvus
 };
 
+/** Metadata stored with every chunk in the `labels` JSON field. */
+export type ChunkLabels = {
+    text?: string;
+    filename?: string;
+    source?: string;
+    sourceUrl?: string;
+    section_path?: string;
+    page_no?: number;
+    sha256?: string;
+    asset_name?: string;
+    entityId?: string;
+    kind?: string;
+    quarantine?: boolean;
+    injection_matches?: string[];
+    [key: string]: unknown;
+};
+
+/** A row returned by search and query; `labels` arrives as the stored JSON string. */
+export type MilvusHit = {
+    id?: string | number;
+    name?: string;
+    contentType?: string | null;
+    url?: string | null;
+    labels?: string | ChunkLabels;
+    distance?: number;
+    [field: string]: unknown;
+};
+
+// REST v2 reply envelope
+type MilvusReply<T> = { code?: number; message?: string; data?: T };
+
+// VARCHAR limit (bytes) of the BM25 `text` field; text is cut to a quarter for multi-byte chars
+const MAX_TEXT_LENGTH = 65535;
+
 @Injectable()
 export class MilvusRagService {
     private readonly base = (process.env.MILVUS_API_URL ?? 'http://localhost:19530').replace(/\/+$/, '');
@@ -36,6 +71,12 @@ export class MilvusRagService {
         'Content-Type': 'application/json'
     };
 
+    // keyword search next to the dense one; off = dense only
+    private readonly hybrid = (process.env.RAG_HYBRID ?? 'true').toLowerCase() !== 'false';
+    private readonly rrfK = parseInt(process.env.RAG_RRF_K ?? String(DEFAULT_RRF_K), 10);
+    // per collection: has the BM25 `sparse` field (created before hybrid search existed otherwise)
+    private readonly sparseFields = new Map<string, Promise<boolean>>();
+
     constructor(private readonly http: HttpService) { }
 
     // -------- Collections --------
@@ -60,7 +101,8 @@ export class MilvusRagService {
      * - vector: FLOAT_VECTOR (dim)
      * - name/url/contentType: VARCHAR
      * - labels: JSON
-     * - HNSW index on vector
+     * - text: VARCHAR with analyzer, turned into the `sparse` BM25 vector by Milvus
+     * - HNSW index on vector, sparse inverted index on sparse
      */
     async getOrCreateCollectionName(
         name: string,
@@ -83,6 +125,11 @@ export class MilvusRagService {
                     { fieldName: 'contentType', dataType: 'DataType.VARCHAR', max_length: 128, nullable: true },
                     { fieldName: 'url', dataType: 'DataType.VARCHAR', max_length: 2048, nullable: true },
                     { fieldName: 'labels', dataType: 'DataType.JSON', nullable: true },
+                    { fieldName: 'text', dataType: 'DataType.VARCHAR', max_length: MAX_TEXT_LENGTH, enable_analyzer: true },
+                    { fieldName: 'sparse', dataType: 'DataType.SPARSE_FLOAT_VECTOR' },
+                ],
+                functions: [
+                    { name: 'text_bm25', type: 'BM25', inputFieldNames: ['text'], outputFieldNames: ['sparse'], params: {} },
                 ],
             },
             indexParams: [
@@ -92,11 +139,18 @@ export class MilvusRagService {
                     indexName: 'vector',
                     params: { index_type: 'HNSW', M: 16, efConstruction: 200 },
                 },
+                {
+                    fieldName: 'sparse',
+                    metricType: 'BM25',
+                    indexName: 'sparse',
+                    params: { index_type: 'SPARSE_INVERTED_INDEX' },
+                },
             ],
             params: { consistencyLevel: 'Bounded' },
         };
 
         await firstValueFrom(this.http.post(url, body, { headers: this.headers }));
+        this.sparseFields.delete(name);
 
         // Load the collection into memory for searching
         await this.loadCollection(name);
@@ -104,6 +158,26 @@ export class MilvusRagService {
         return name;
     }
 
+    /**
+     * Whether `name` has the BM25 `sparse` field. Collections created before
+     * hybrid search keep working dense-only until they are re-created.
+     */
+    async hasSparseField(name: string): Promise<boolean> {
+        let known = this.sparseFields.get(name);
+        if (!known) {
+            const url = `${this.base}/v2/vectordb/collections/describe`;
+            const body = { dbName: this.dbName, collectionName: name };
+            known = firstValueFrom(this.http.post<MilvusReply<{ fields?: Array<{ name?: string }> }>>(url, body, { headers: this.headers }))
+                .then(r => (r.data?.data?.fields ?? []).some(f => f?.name === 'sparse'))
+                .catch(() => {
+                    this.sparseFields.delete(name);
+                    return false;
+                });
+            this.sparseFields.set(name, known);
+        }
+        return known;
+    }
+
     async loadCollection(name: string) {
         const url = `${this.base}/v2/vectordb/collections/load`;
         const body = { dbName: this.dbName, collectionName: name };
@@ -116,12 +190,15 @@ export class MilvusRagService {
      */
     async addDocuments(collectionName: string, docs: DocInput[]) {
         const url = `${this.base}/v2/vectordb/entities/insert`;
+        const withText = await this.hasSparseField(collectionName);
         const data = docs.map(d => ({
             vector: d.vector,
             name: d.name,
             contentType: d.contentType ?? null,
             url: d.url ?? null,
-            labels: JSON.stringify(d.labels)
+            labels: JSON.stringify(d.labels),
+            // BM25 input; Milvus derives `sparse` from it
+            ...(withText ? { text: String(d.labels?.text ?? '').slice(0, MAX_TEXT_LENGTH / 4) } : {}),
         }))
         const body = { dbName: this.dbName, collectionName, data };
         const r = await firstValueFrom(this.http.post(url, body, { headers: this.headers }));
@@ -129,18 +206,19 @@ export class MilvusRagService {
     }
 
     /**
-     * List a few rows (metadata) from the collection.
+     * List a few rows (metadata) from the collection, optionally narrowed
+     * by a boolean filter expression.
      */
-    async listDocuments(collectionName: string, limit = 100): Promise<any[]> {
+    async listDocuments(collectionName: string, limit = 100, filter = 'id >= 0'): Promise<MilvusHit[]> {
         const url = `${this.base}/v2/vectordb/entities/query`;
         const body = {
             dbName: this.dbName,
             collectionName,
-            filter: 'id >= 0',
+            filter,
             outputFields: ['name', 'contentType', 'url', 'labels'],
             limit,
         };
-        const r = await firstValueFrom(this.http.post(url, body, { headers: this.headers }));
+        const r = await firstValueFrom(this.http.post<MilvusReply<MilvusHit[]>>(url, body, { headers: this.headers }));
         return r.data?.data ?? [];
     }
 
@@ -153,7 +231,7 @@ export class MilvusRagService {
         limit = 5,
         filter?: string,
         outputFields: string[] = ['name', 'contentType', 'url', 'labels'],
-    ) {
+    ): Promise<MilvusHit[]> {
         const url = `${this.base}/v2/vectordb/entities/search`;
         const body = {
             dbName: this.dbName,
@@ -165,7 +243,58 @@ export class MilvusRagService {
             ...(filter ? { filter } : {}),
             searchParams: { metricType: 'COSINE', params: { ef: 128 } },
         };
-        const r = await firstValueFrom(this.http.post(url, body, { headers: this.headers }));
+        const r = await firstValueFrom(this.http.post<MilvusReply<MilvusHit[]>>(url, body, { headers: this.headers }));
+        return r.data?.data ?? [];
+    }
+
+    /**
+     * Keyword (BM25) search on the `text` field; [] when the collection has
+     * no sparse field.
+     */
+    async keywordSearch(
+        collectionName: string,
+        queryText: string,
+        limit = 5,
+        filter?: string,
+        outputFields: string[] = ['name', 'contentType', 'url', 'labels'],
+    ): Promise<MilvusHit[]> {
+        if (!queryText.trim() || !(await this.hasSparseField(collectionName))) return [];
+        const url = `${this.base}/v2/vectordb/entities/search`;
+        const body = {
+            dbName: this.dbName,
+            collectionName,
+            data: [queryText],
+            annsField: 'sparse',
+            limit,
+            outputFields,
+            ...(filter ? { filter } : {}),
+            searchParams: { metricType: 'BM25', params: { drop_ratio_search: 0.2 } },
+        };
+        const r = await firstValueFrom(this.http.post<MilvusReply<MilvusHit[]>>(url, body, { headers: this.headers }));
         return r.data?.data ?? [];
     }
+
+    /**
+     * Dense + BM25 search fused with reciprocal rank fusion, so exact error
+     * codes, part numbers and parameter names are found even when their
+     * embedding is not close. Falls back to the dense search alone when
+     * hybrid search is off, the collection has no sparse field or the
+     * keyword search fails. Fused hits carry `rrf_score` and `ranks`
+     * ([dense, keyword]).
+     */
+    async hybridSearch(
+        collectionName: string,
+        queryVector: number[],
+        queryText: string,
+        limit = 5,
+        filter?: string,
+        outputFields: string[] = ['name', 'contentType', 'url', 'labels'],
+    ): Promise<MilvusHit[]> {
+        const dense = this.search(collectionName, queryVector, limit, filter, outputFields);
+        if (!this.hybrid) return dense;
+        const keyword = this.keywordSearch(collectionName, queryText, limit, filter, outputFields).catch((): MilvusHit[] => []);
+        const [denseHits, keywordHits] = await Promise.all([dense, keyword]);
+        if (!keywordHits.length) return denseHits;
+        return reciprocalRankFusion([denseHits, keywordHits], limit, this.rrfK);
+    }
 }
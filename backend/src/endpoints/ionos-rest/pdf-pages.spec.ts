@@ -0,0 +1,59 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { pageForSpan, pageTextFromItems } from './pdf-pages';
+
+describe('pdf-pages', () => {
+  it('renders items like pdf-parse', () => {
+    const items = [
+      { str: 'Error ', transform: [0, 0, 0, 0, 0, 700] },
+      { str: 'E-1042', transform: [0, 0, 0, 0, 0, 700] },
+      { str: 'Coolant low', transform: [0, 0, 0, 0, 0, 680] },
+    ];
+    expect(pageTextFromItems(items)).toBe('Error E-1042\nCoolant low');
+  });
+
+  const pages = [
+    'Safety instructions\nAlways switch off the main isolator before opening the cabinet.',
+    'Maintenance\nReplace the coolant filter every 500 operating hours using part 6ES7-214.',
+    'Troubleshooting\nError E-1042 means the coolant level is below the minimum mark.',
+  ];
+
+  it('finds the page a chunk starts on', () => {
+    expect(
+      pageForSpan(
+        pages,
+        'Replace the coolant filter every 500   operating hours',
+      ),
+    ).toBe(2);
+    expect(
+      pageForSpan(
+        pages,
+        'Troubleshooting Error E-1042 means the coolant level is below',
+      ),
+    ).toBe(3);
+  });
+
+  it('uses later words when the start is not found', () => {
+    const span =
+      'Rewritten | table | header | row | one | two | three | four ' +
+      'Always switch off the main isolator before opening the cabinet.';
+    expect(pageForSpan(pages, span)).toBe(1);
+    expect(pageForSpan(pages, 'nothing like this appears in the manual')).toBe(
+      undefined,
+    );
+  });
+});
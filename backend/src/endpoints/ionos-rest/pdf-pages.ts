@@ -0,0 +1,68 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Page numbers for PDF chunks. pdf-parse only returns the whole text, so
+ * each page is rendered into its own string (the same way pdf-parse does)
+ * and chunks are located in those pages afterwards.
+ */
+
+export type PdfTextItem = { str: string; transform: number[] };
+
+// words of a chunk searched for at once; long enough to be unique
+const PROBE_WORDS = 8;
+
+/** pdf-parse's default page rendering: a newline whenever the baseline moves. */
+export function pageTextFromItems(items: PdfTextItem[]): string {
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * 1-based page on which `span` starts, or undefined when it cannot be
+ * found. Tries successive runs of words, since the start of a chunk may be
+ * overlap or a rewritten table row.
+ */
+export function pageForSpan(pages: string[], span: string): number | undefined {
+  const starts: number[] = [];
+  let joined = '';
+  for (const page of pages) {
+    starts.push(joined.length);
+    joined += `${normalize(page ?? '')} `;
+  }
+
+  const words = normalize(span).split(' ').filter(Boolean);
+  for (let i = 0; i < words.length; i += PROBE_WORDS) {
+    const probe = words.slice(i, i + PROBE_WORDS).join(' ');
+    if (probe.length < 12) break;
+    const at = joined.indexOf(probe);
+    if (at < 0) continue;
+    let page = 0;
+    while (page + 1 < starts.length && starts[page + 1] <= at) page++;
+    return page + 1;
+  }
+  return undefined;
+}
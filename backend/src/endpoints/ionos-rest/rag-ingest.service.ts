@@ -24,13 +24,17 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import pdfParse from 'pdf-parse';
 import { MilvusRagService } from './milvus.service';
-import { IonosService } from './ionos.service';
+import { LlmProviderRegistry } from '../llm/llm-provider.registry';
+import { pageForSpan, pageTextFromItems, PdfTextItem } from './pdf-pages';
+import { scanForInjection } from '../safety/injection';
 
 /**
  * CHANGES:
  * - Token-based chunking (defaults 200–400 tokens with 50–100 overlap via env)
  * - Section-aware PDF splitting (headings/paragraphs) + table-preserving heuristic
  * - Hybrid-ready metadata: machine_id, asset_name, dt_version, ts_start, ts_end, section_path, page_no
+ * - PDF chunks carry the asset_names / machine_ids / entity_ids of the assets linking them
+ * - Chunks that read like prompt injection are stored with quarantine=true and never retrieved
  * - Hierarchy: create a parent (doc-level) embedding + child chunks
  * - Stable dedupe via sha256(content) and per-PDF file hash
  */
@@ -44,6 +48,15 @@ type VectorDoc = {
   labels: Record<string, any>;
 };
 
+// assets whose JSON-LD links a PDF; stored as label arrays on its chunks
+type PdfOwners = { asset_names: string[]; machine_ids: string[]; entity_ids: string[] };
+
+// the pdf.js page pdf-parse passes to `pagerender`
+type PdfPage = {
+  pageIndex: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: PdfTextItem[] }>;
+};
+
 @Injectable()
 export class RagIngestService implements OnModuleInit {
   private readonly log = new Logger(RagIngestService.name);
@@ -68,7 +81,7 @@ export class RagIngestService implements OnModuleInit {
   constructor(
     private readonly http: HttpService,
     private readonly milvus: MilvusRagService,
-    private readonly ionos: IonosService,
+    private readonly providers: LlmProviderRegistry,
   ) {}
 
   async onModuleInit() {
@@ -88,7 +101,8 @@ export class RagIngestService implements OnModuleInit {
 
     const childDocs: Promise<VectorDoc>[] = [];
     const parentDocs: Promise<VectorDoc>[] = [];
-    const pdfUrls = new Set<string>();
+    // PDF url → assets whose JSON-LD links it, so manual chunks can be filtered by asset
+    const pdfUrls = new Map<string, PdfOwners>();
 
     // 2) JSON-LD → sectioned text → token chunks → vectors
     for (const file of targets) {
@@ -102,8 +116,6 @@ export class RagIngestService implements OnModuleInit {
         continue;
       }
 
-      this.collectPdfUrls(json, pdfUrls);
-
       const entities = Array.isArray(json) ? json : [json];
       for (let eidx = 0; eidx < entities.length; eidx++) {
         const ent = entities[eidx];
@@ -112,6 +124,17 @@ export class RagIngestService implements OnModuleInit {
         // Flatten and convert JSON-LD entity to "facts" paragraphs
         const flat = this.flattenJsonLd(ent);
         const { machineMeta, factParagraphs } = this.jsonLdToParagraphsWithMeta(flat);
+        const entityId = (flat as { id?: unknown }).id;
+
+        const found = new Set<string>();
+        this.collectPdfUrls(ent, found);
+        for (const url of found) {
+          const owners = pdfUrls.get(url) ?? { asset_names: [], machine_ids: [], entity_ids: [] };
+          if (machineMeta.asset_name) owners.asset_names.push(String(machineMeta.asset_name));
+          if (machineMeta.machine_id) owners.machine_ids.push(String(machineMeta.machine_id));
+          if (entityId) owners.entity_ids.push(String(entityId));
+          pdfUrls.set(url, owners);
+        }
 
         if (!factParagraphs.length) continue;
 
@@ -154,7 +177,7 @@ export class RagIngestService implements OnModuleInit {
     this.log.log(`Prepared JSON-LD parents: ${jsonParents.length}, children: ${jsonChildren.length}`);
 
     // 3) PDFs → download → parse → section-aware paragraphization → token chunks → vectors
-    const pdfDocs = await this.processPdfs(Array.from(pdfUrls));
+    const pdfDocs = await this.processPdfs(pdfUrls);
 
     const allDocs = [...jsonParents, ...jsonChildren, ...pdfDocs].filter(d => {
       if (!Array.isArray(d.vector) || d.vector.length !== this.embedDim) {
@@ -164,6 +187,10 @@ export class RagIngestService implements OnModuleInit {
       return true;
     });
 
+    const quarantined = allDocs.filter(d => d.labels.quarantine);
+    if (quarantined.length) {
+      this.log.warn(`Quarantined ${quarantined.length} chunk(s) with instruction-like text: ${quarantined.map(d => d.name).join(', ')}`);
+    }
     this.log.log(`Uploading ${allDocs.length} docs to ${this.collectionName}…`);
     if (allDocs.length) {
       await this.milvus.addDocuments(
@@ -176,13 +203,20 @@ export class RagIngestService implements OnModuleInit {
 
   // ---------- Embedding ----------
   private async embedChunk(name: string, content: string, labels: Record<string, any>): Promise<VectorDoc> {
-    const resp = await this.ionos.createEmbeddings({ input: content });
+    const resp = await this.providers.getEmbedding().createEmbeddings({ input: content });
     const vec = resp.data[0].embedding;
+    // external manuals are data; text that talks to the model is kept out of retrieval
+    const scan = scanForInjection(content);
+    if (scan.suspicious) {
+      this.log.warn(`Quarantine ${name} (${labels.sourceUrl ?? labels.source ?? ''}): "${scan.matches.join('", "')}"`);
+      return { name, contentType: 'text/plain', vector: vec, labels: { ...labels, quarantine: true, injection_matches: scan.matches } };
+    }
     return { name, contentType: 'text/plain', vector: vec, labels };
   }
 
   // ---------- PDFs ----------
-  private async processPdfs(urls: string[]): Promise<VectorDoc[]> {
+  private async processPdfs(owners: Map<string, PdfOwners>): Promise<VectorDoc[]> {
+    const urls = Array.from(owners.keys());
     if (!urls.length) return [];
     this.log.log(`Found ${urls.length} PDF urls`);
 
@@ -196,7 +230,7 @@ export class RagIngestService implements OnModuleInit {
           headers: { Accept: 'application/pdf' },
           validateStatus: s => s >= 200 && s < 400,
         }));
-        const buf = Buffer.from(resp.data as any);
+        const buf = Buffer.from(resp.data);
         const pdfFileHash = this.sha256(buf);
         if (this.seenPdfFileHashes.has(pdfFileHash)) {
           this.log.debug(`Skip PDF (already seen): ${url}`);
@@ -204,7 +238,17 @@ export class RagIngestService implements OnModuleInit {
         }
         this.seenPdfFileHashes.add(pdfFileHash);
 
-        const parsed = await pdfParse(buf);
+        // text per page (0-based), for the page number of each chunk
+        const pages: string[] = [];
+        const parsed = await pdfParse(buf, {
+          pagerender: (pageData: PdfPage) =>
+            pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+              .then((content) => {
+                const text = pageTextFromItems(content.items);
+                pages[pageData.pageIndex] = text;
+                return text;
+              }),
+        });
         const fullText = (parsed?.text || '').replace(/\r/g, '').trim();
         if (!fullText) {
           this.log.warn(`PDF has no extractable text (maybe scanned): ${url}`);
@@ -212,6 +256,7 @@ export class RagIngestService implements OnModuleInit {
         }
 
         const fileName = url.split('/').pop() || 'manual.pdf';
+        const ownedBy = this.uniqueOwners(owners.get(url));
         const parentId = this.sha256(`${fileName}:parent:${pdfFileHash}`);
 
         // Parent doc (whole-doc routing embedding, truncated if huge)
@@ -223,6 +268,7 @@ export class RagIngestService implements OnModuleInit {
           sourceUrl: url,
           filename: fileName,
           pageCount: String(parsed?.numpages ?? ''),
+          ...ownedBy,
         }));
 
         // Section-aware paragraphization
@@ -238,6 +284,7 @@ export class RagIngestService implements OnModuleInit {
 
           // best-effort section path (first heading seen within the segment)
           const sectionPath = this.pickSectionForSpan(paragraphs, ch);
+          const pageNo = pageForSpan(pages, ch);
 
           out.push(await this.embedChunk(`${fileName}#${idx}`, ch, {
             sha256: combinedHash,
@@ -250,6 +297,8 @@ export class RagIngestService implements OnModuleInit {
             parent_id: parentId,
             text: ch,
             section_path: sectionPath,
+            ...(pageNo ? { page_no: String(pageNo) } : {}),
+            ...ownedBy,
           }));
           idx++;
         }
@@ -270,6 +319,14 @@ export class RagIngestService implements OnModuleInit {
     return out;
   }
 
+  private uniqueOwners(owners?: PdfOwners): PdfOwners {
+    return {
+      asset_names: [...new Set(owners?.asset_names ?? [])],
+      machine_ids: [...new Set(owners?.machine_ids ?? [])],
+      entity_ids: [...new Set(owners?.entity_ids ?? [])],
+    };
+  }
+
   // ---------- JSON-LD helpers ----------
   private collectPdfUrls(obj: any, set: Set<string>) {
     const walk = (v: any) => {
@@ -19,9 +19,7 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { RagIngestService } from './rag-ingest.service';
 import { MilvusRagService } from './milvus.service';
-import { IonosService } from './ionos.service';
-import { OllamaModule } from '../ollama-rest/ollama.module';
-import { OpeaModule } from '../opea-rest/opea.module';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
   imports: [
@@ -29,18 +27,15 @@ import { OpeaModule } from '../opea-rest/opea.module';
       timeout: 30000,
       maxRedirects: 5,
     }),
-    OllamaModule,
-    OpeaModule,
+    LlmModule,
   ],
   providers: [
     RagIngestService,
     MilvusRagService,
-    IonosService,
   ],
   exports: [
     RagIngestService,
     MilvusRagService,
-    IonosService,
   ],
 })
 export class RagModule {}
\ No newline at end of file
@@ -0,0 +1,52 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { fusionKey, RankedHit, reciprocalRankFusion } from './rank-fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('ranks hits found by both searches first', () => {
+    const dense = [{ id: 1 }, { id: 2 }, { id: 3 }];
+    const keyword = [{ id: 3 }, { id: 4 }];
+    const fused = reciprocalRankFusion([dense, keyword], 3);
+    // 2 and 4 tie; the dense list wins
+    expect(fused.map((h) => h.id)).toEqual([3, 1, 2]);
+    expect(fused[0].ranks).toEqual([3, 1]);
+    expect(fused[1].ranks).toEqual([1, null]);
+  });
+
+  it('keeps the first copy of a hit and sums its score', () => {
+    const fused = reciprocalRankFusion(
+      [[{ id: 'a', distance: 0.9 }], [{ id: 'a', distance: 12.5 }]],
+      5,
+      1,
+    );
+    expect(fused).toHaveLength(1);
+    expect(fused[0].distance).toBe(0.9);
+    expect(fused[0].rrf_score).toBeCloseTo(1);
+  });
+
+  it('matches hits by content hash, not by imprecise INT64 ids', () => {
+    // two distinct INT64 ids that parse to the same double
+    const a: RankedHit = { id: 2 ** 60, labels: { sha256: 'aaa' } };
+    const b: RankedHit = { id: 2 ** 60 + 1, labels: '{"sha256":"bbb"}' };
+    const fused = reciprocalRankFusion([[a], [b]], 5);
+    expect(fused).toHaveLength(2);
+    expect(fusionKey({ id: 2 ** 60 })).toBeNull();
+    expect(fusionKey({ id: 7, name: 'manual.pdf#3' })).toBe(
+      'name:manual.pdf#3',
+    );
+  });
+});
@@ -0,0 +1,87 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every
+ * hit it contains, so a chunk that is top-ranked by either the dense or the
+ * keyword search surfaces without having to calibrate their scores.
+ */
+
+export const DEFAULT_RRF_K = 60;
+
+export type RankedHit = {
+  id?: string | number;
+  name?: string;
+  labels?: Record<string, any> | string;
+  [key: string]: any;
+};
+
+export type FusedHit<T extends RankedHit> = T & {
+  rrf_score: number;
+  // 1-based rank in each input list, null where the list missed the hit
+  ranks: (number | null)[];
+};
+
+/**
+ * Identity of a hit across lists: the chunk's content hash, else its name
+ * (`<file>#<chunk>`), else its id. Milvus ids are INT64 and arrive as JSON
+ * numbers that lose precision past 2^53, so numeric ids only count while
+ * they are safe integers.
+ */
+export function fusionKey(hit: RankedHit): string | null {
+  let labels: Record<string, unknown> | undefined;
+  try {
+    labels =
+      typeof hit.labels === 'string'
+        ? (JSON.parse(hit.labels) as Record<string, unknown>)
+        : hit.labels;
+  } catch {
+    labels = undefined;
+  }
+  const sha = labels?.sha256;
+  if (typeof sha === 'string' && sha) return `sha256:${sha}`;
+  if (typeof hit.name === 'string' && hit.name) return `name:${hit.name}`;
+  if (typeof hit.id === 'string' && hit.id) return `id:${hit.id}`;
+  if (Number.isSafeInteger(hit.id)) return `id:${hit.id}`;
+  return null;
+}
+
+export function reciprocalRankFusion<T extends RankedHit>(
+  lists: T[][],
+  limit: number,
+  k = DEFAULT_RRF_K,
+): FusedHit<T>[] {
+  const fused = new Map<string, FusedHit<T>>();
+  lists.forEach((list, li) => {
+    list.forEach((hit, i) => {
+      // hits without a usable key cannot be matched across lists
+      const key = fusionKey(hit) ?? `${li}:${i}`;
+      const entry =
+        fused.get(key) ??
+        ({
+          ...hit,
+          rrf_score: 0,
+          ranks: lists.map(() => null),
+        } as FusedHit<T>);
+      entry.rrf_score += 1 / (k + i + 1);
+      entry.ranks[li] = i + 1;
+      fused.set(key, entry);
+    });
+  });
+  return [...fused.values()]
+    .sort((a, b) => b.rrf_score - a.rrf_score)
+    .slice(0, limit);
+}
@@ -0,0 +1,61 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new CircuitBreaker(2, 60_000, () => now);
+  });
+
+  it('stays closed below the failure threshold', () => {
+    breaker.recordFailure('opea', new Error('ECONNREFUSED'));
+    expect(breaker.isOpen('opea')).toBe(false);
+    expect(breaker.status('opea').consecutiveFailures).toBe(1);
+  });
+
+  it('opens after consecutive failures and closes after the cool-down', () => {
+    breaker.recordFailure('opea', new Error('timeout'));
+    breaker.recordFailure('opea', new Error('timeout'));
+    expect(breaker.isOpen('opea')).toBe(true);
+    expect(breaker.status('opea')).toMatchObject({
+      state: 'open',
+      lastError: 'timeout',
+    });
+
+    now += 60_001;
+    expect(breaker.isOpen('opea')).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    breaker.recordFailure('ollama', 'down');
+    breaker.recordSuccess('ollama');
+    breaker.recordFailure('ollama', 'down');
+    expect(breaker.isOpen('ollama')).toBe(false);
+  });
+
+  it('tracks providers independently', () => {
+    breaker.recordFailure('opea', 'x');
+    breaker.recordFailure('opea', 'x');
+    expect(breaker.isOpen('opea')).toBe(true);
+    expect(breaker.isOpen('ionos')).toBe(false);
+    expect(breaker.status('ionos').state).toBe('closed');
+  });
+});
@@ -0,0 +1,92 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export interface ProviderHealthStatus {
+  state: 'closed' | 'open';
+  consecutiveFailures: number;
+  openUntil?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+type Entry = {
+  failures: number;
+  openUntil: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+};
+
+/**
+ * Per-provider circuit breaker. After `failureThreshold` consecutive
+ * failures a provider is skipped until `cooldownMs` has passed; the next
+ * call after the cool-down is a trial; one success closes the circuit again.
+ */
+export class CircuitBreaker {
+  private readonly entries = new Map<string, Entry>();
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+    private readonly now: () => number = () => Date.now(),
+  ) {}
+
+  isOpen(name: string): boolean {
+    const entry = this.entries.get(name);
+    return !!entry && entry.openUntil > this.now();
+  }
+
+  recordSuccess(name: string): void {
+    const entry = this.entry(name);
+    entry.failures = 0;
+    entry.openUntil = 0;
+    entry.lastSuccessAt = this.now();
+  }
+
+  recordFailure(name: string, error: unknown): void {
+    const entry = this.entry(name);
+    entry.failures++;
+    entry.lastFailureAt = this.now();
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    if (entry.failures >= this.failureThreshold) {
+      entry.openUntil = this.now() + this.cooldownMs;
+    }
+  }
+
+  status(name: string): ProviderHealthStatus {
+    const entry = this.entries.get(name);
+    if (!entry) return { state: 'closed', consecutiveFailures: 0 };
+    const iso = (t?: number) => (t ? new Date(t).toISOString() : undefined);
+    return {
+      state: this.isOpen(name) ? 'open' : 'closed',
+      consecutiveFailures: entry.failures,
+      openUntil: this.isOpen(name) ? iso(entry.openUntil) : undefined,
+      lastError: entry.lastError,
+      lastFailureAt: iso(entry.lastFailureAt),
+      lastSuccessAt: iso(entry.lastSuccessAt),
+    };
+  }
+
+  private entry(name: string): Entry {
+    let entry = this.entries.get(name);
+    if (!entry) {
+      entry = { failures: 0, openUntil: 0 };
+      this.entries.set(name, entry);
+    }
+    return entry;
+  }
+}
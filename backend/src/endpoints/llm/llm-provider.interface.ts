@@ -0,0 +1,110 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export type ProviderName = 'ionos' | 'ollama' | 'opea';
+
+export const PROVIDER_NAMES: ProviderName[] = ['ionos', 'ollama', 'opea'];
+
+/** Injection token for the list of backends the registry can choose from. */
+export const LLM_PROVIDERS = Symbol('LLM_PROVIDERS');
+
+type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
+
+/** A function call requested by the model (OpenAI `tool_calls` entry). */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/** OpenAI-style tool definition, passed to providers via `extra.tools`. */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // assistant turns that call tools, and the tool results answering them
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface ChatCompletionParams {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  extra?: Record<string, any>; // for top_p, presence_penalty, tools, etc.
+}
+
+export interface EmbeddingParams {
+  input: string | string[];
+  encodingFormat?: 'float' | 'base64';
+}
+
+/** The subset of an OpenAI chat completion response we rely on. */
+export interface ChatCompletionResponse {
+  choices: Array<{
+    message: { content: string | null; tool_calls?: ToolCall[] };
+    finish_reason?: string;
+  }>;
+  [key: string]: any;
+}
+
+/** The subset of an OpenAI embeddings response we rely on. */
+export interface EmbeddingResponse {
+  data: Array<{ embedding: number[] }>;
+  [key: string]: any;
+}
+
+/** A chat backend speaking the OpenAI chat completions format. */
+export interface LlmProvider {
+  readonly name: ProviderName;
+  /** chat model the provider sends requests to; sizes the context budget */
+  readonly model: string;
+  /**
+   * Context window the backend actually serves, when it can tell. Without
+   * it the window is looked up from the model name.
+   */
+  contextTokens?(): Promise<number | undefined>;
+  /** false for backends that ignore `tools` and never return tool calls */
+  readonly supportsTools?: boolean;
+  chatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResponse>;
+  chatCompletionStream(params: ChatCompletionParams): AsyncGenerator<string>;
+}
+
+/** An embeddings backend returning `{ data: [{ embedding }] }`. */
+export interface EmbeddingProvider {
+  readonly name: ProviderName;
+  createEmbeddings(params: EmbeddingParams): Promise<EmbeddingResponse>;
+}
+
+export function isLlmProvider(p: unknown): p is LlmProvider {
+  return (
+    typeof (p as LlmProvider)?.chatCompletion === 'function' &&
+    typeof (p as LlmProvider)?.chatCompletionStream === 'function'
+  );
+}
+
+export function isEmbeddingProvider(p: unknown): p is EmbeddingProvider {
+  return typeof (p as EmbeddingProvider)?.createEmbeddings === 'function';
+}
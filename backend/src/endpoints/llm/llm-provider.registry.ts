@@ -0,0 +1,269 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { CircuitBreaker, ProviderHealthStatus } from './circuit-breaker';
+import {
+  ChatCompletionParams,
+  ChatCompletionResponse,
+  EmbeddingProvider,
+  isEmbeddingProvider,
+  isLlmProvider,
+  LLM_PROVIDERS,
+  LlmProvider,
+} from './llm-provider.interface';
+
+export interface FailoverAttempt {
+  provider: string;
+  error: string;
+}
+
+export interface FailoverCompletion {
+  completion: ChatCompletionResponse;
+  provider: string;
+  attempts: FailoverAttempt[];
+}
+
+export interface FailoverStream {
+  stream: AsyncGenerator<string>;
+  provider: string;
+  attempts: FailoverAttempt[];
+}
+
+/**
+ * Resolves the chat and embedding backend for a request. The explicit
+ * `hostProvider` of a request wins; otherwise LLM_PROVIDER /
+ * EMBEDDING_PROVIDER from the environment decide.
+ *
+ * Chat completions can fail over along LLM_FALLBACK_CHAIN (e.g.
+ * "opea,ollama,ionos"). Providers that keep failing are skipped for
+ * LLM_CIRCUIT_COOLDOWN_MS by a per-provider circuit breaker.
+ */
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly log = new Logger(LlmProviderRegistry.name);
+  private readonly llms = new Map<string, LlmProvider>();
+  private readonly embedders = new Map<string, EmbeddingProvider>();
+  private readonly breaker = new CircuitBreaker(
+    parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD ?? '2', 10),
+    parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS ?? '60000', 10),
+  );
+  // 0 = rely on each provider's own HTTP timeout
+  private readonly attemptTimeoutMs = parseInt(
+    process.env.LLM_PROVIDER_TIMEOUT_MS ?? '0',
+    10,
+  );
+
+  constructor(@Inject(LLM_PROVIDERS) providers: unknown[]) {
+    for (const provider of providers) {
+      if (isLlmProvider(provider)) this.llms.set(provider.name, provider);
+      if (isEmbeddingProvider(provider)) {
+        this.embedders.set(provider.name, provider);
+      }
+    }
+    this.log.log(
+      `Registered LLM providers: ${[...this.llms.keys()].join(', ')}; ` +
+        `embedding providers: ${[...this.embedders.keys()].join(', ')}`,
+    );
+  }
+
+  get defaultLlmName(): string {
+    return process.env.LLM_PROVIDER || 'ionos';
+  }
+
+  get defaultEmbeddingName(): string {
+    return process.env.EMBEDDING_PROVIDER || 'ionos';
+  }
+
+  getLlm(name?: string | null): LlmProvider {
+    const key = name || this.defaultLlmName;
+    const provider = this.llms.get(key);
+    if (!provider) {
+      throw new BadRequestException(`Unknown LLM provider "${key}"`);
+    }
+    return provider;
+  }
+
+  getEmbedding(name?: string | null): EmbeddingProvider {
+    const key = name || this.defaultEmbeddingName;
+    const provider = this.embedders.get(key);
+    if (!provider) {
+      throw new BadRequestException(`Unknown embedding provider "${key}"`);
+    }
+    return provider;
+  }
+
+  listLlms(): string[] {
+    return [...this.llms.keys()];
+  }
+
+  /**
+   * Ordered list of providers to try: the requested (or default) provider
+   * first, then LLM_FALLBACK_CHAIN. Providers with an open circuit move to
+   * the end so they are only tried when everything else failed.
+   */
+  resolveChain(preferred?: string | null): LlmProvider[] {
+    const fallback = (process.env.LLM_FALLBACK_CHAIN ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    const names = [...new Set([preferred || this.defaultLlmName, ...fallback])];
+
+    const unknown = names.filter((n) => !this.llms.has(n));
+    if (unknown.length === names.length) {
+      throw new BadRequestException(`Unknown LLM provider "${names[0]}"`);
+    }
+    if (unknown.length) {
+      this.log.warn(
+        `Ignoring unknown providers in chain: ${unknown.join(', ')}`,
+      );
+    }
+
+    const chain = names
+      .filter((n) => this.llms.has(n))
+      .map((n) => this.llms.get(n)!);
+    const healthy = chain.filter((p) => !this.breaker.isOpen(p.name));
+    const open = chain.filter((p) => this.breaker.isOpen(p.name));
+    return [...healthy, ...open];
+  }
+
+  /**
+   * Chat models along the failover chain, in the order they would be tried,
+   * with the context window each provider reports for itself.
+   */
+  async chainModels(
+    preferred?: string | null,
+  ): Promise<Array<{ model: string; contextTokens?: number }>> {
+    return Promise.all(
+      this.resolveChain(preferred).map(async (p) => ({
+        model: p.model,
+        contextTokens: await p.contextTokens?.(),
+      })),
+    );
+  }
+
+  async chatWithFailover(
+    params: ChatCompletionParams,
+    preferred?: string | null,
+  ): Promise<FailoverCompletion> {
+    const attempts: FailoverAttempt[] = [];
+    for (const llm of this.resolveChain(preferred)) {
+      try {
+        const completion = await this.withTimeout(
+          llm.chatCompletion(params),
+          llm.name,
+        );
+        this.breaker.recordSuccess(llm.name);
+        return { completion, provider: llm.name, attempts };
+      } catch (error) {
+        this.recordAttempt(attempts, llm.name, error);
+      }
+    }
+    throw new ProviderChainError(attempts);
+  }
+
+  /**
+   * Opens a streamed completion on the first provider that produces a
+   * token. Failover is only possible before the first token; an error
+   * later in the stream is recorded against the provider and rethrown.
+   */
+  async streamWithFailover(
+    params: ChatCompletionParams,
+    preferred?: string | null,
+  ): Promise<FailoverStream> {
+    const attempts: FailoverAttempt[] = [];
+    for (const llm of this.resolveChain(preferred)) {
+      const it = llm.chatCompletionStream(params);
+      try {
+        const first = await this.withTimeout(it.next(), llm.name);
+        this.breaker.recordSuccess(llm.name);
+        return {
+          stream: this.continueStream(llm.name, first, it),
+          provider: llm.name,
+          attempts,
+        };
+      } catch (error) {
+        this.recordAttempt(attempts, llm.name, error);
+        void it.return(undefined).catch(() => undefined);
+      }
+    }
+    throw new ProviderChainError(attempts);
+  }
+
+  health(): Record<string, ProviderHealthStatus> {
+    return Object.fromEntries(
+      [...this.llms.keys()].map((name) => [name, this.breaker.status(name)]),
+    );
+  }
+
+  private async *continueStream(
+    name: string,
+    first: IteratorResult<string>,
+    rest: AsyncGenerator<string>,
+  ): AsyncGenerator<string> {
+    if (first.done) return;
+    yield first.value;
+    try {
+      yield* rest;
+    } catch (error) {
+      this.breaker.recordFailure(name, error);
+      throw error;
+    }
+  }
+
+  private recordAttempt(
+    attempts: FailoverAttempt[],
+    name: string,
+    error: unknown,
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    attempts.push({ provider: name, error: message });
+    this.breaker.recordFailure(name, error);
+    this.log.warn(`[FAILOVER] ${name} failed: ${message}`);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, name: string): Promise<T> {
+    if (!this.attemptTimeoutMs) return promise;
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(`${name} timed out after ${this.attemptTimeoutMs} ms`),
+          ),
+        this.attemptTimeoutMs,
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+/** Thrown when every provider in the failover chain failed. */
+export class ProviderChainError extends Error {
+  constructor(readonly attempts: FailoverAttempt[]) {
+    super(
+      `All LLM providers failed: ${attempts
+        .map((a) => `${a.provider} (${a.error})`)
+        .join('; ')}`,
+    );
+    this.name = 'ProviderChainError';
+  }
+}
@@ -0,0 +1,32 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Controller, Get } from '@nestjs/common';
+import { LlmProviderRegistry } from './llm-provider.registry';
+
+@Controller('llm')
+export class LlmController {
+  constructor(private readonly providers: LlmProviderRegistry) {}
+
+  @Get('health')
+  health() {
+    return {
+      defaultProvider: this.providers.defaultLlmName,
+      chain: this.providers.resolveChain().map((p) => p.name),
+      providers: this.providers.health(),
+    };
+  }
+}
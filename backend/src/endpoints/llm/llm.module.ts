@@ -0,0 +1,51 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { IonosService } from '../ionos-rest/ionos.service';
+import { OllamaModule } from '../ollama-rest/ollama.module';
+import { OllamaService } from '../ollama-rest/ollama.service';
+import { OpeaModule } from '../opea-rest/opea.module';
+import { OpeaService } from '../opea-rest/opea.service';
+import { LlmController } from './llm.controller';
+import { LLM_PROVIDERS } from './llm-provider.interface';
+import { LlmProviderRegistry } from './llm-provider.registry';
+
+// To add a backend: implement LlmProvider / EmbeddingProvider and list it in
+// the LLM_PROVIDERS factory below.
+@Module({
+  imports: [
+    HttpModule.register({
+      timeout: 30000,
+      maxRedirects: 5,
+    }),
+    OllamaModule,
+    OpeaModule,
+  ],
+  controllers: [LlmController],
+  providers: [
+    IonosService,
+    {
+      provide: LLM_PROVIDERS,
+      useFactory: (...providers: unknown[]) => providers,
+      inject: [IonosService, OllamaService, OpeaService],
+    },
+    LlmProviderRegistry,
+  ],
+  exports: [IonosService, LlmProviderRegistry],
+})
+export class LlmModule {}
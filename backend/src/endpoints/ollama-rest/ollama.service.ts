@@ -17,6 +17,8 @@
 import { Injectable } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { readChatCompletionStream } from '../llm/openai-stream';
+import { EmbeddingProvider, LlmProvider, ProviderName } from '../llm/llm-provider.interface';
 
 type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
 export interface ChatMessage {
@@ -25,8 +27,14 @@ export interface ChatMessage {
 }
 
 @Injectable()
-export class OllamaService {
+export class OllamaService implements LlmProvider, EmbeddingProvider {
+    readonly name: ProviderName = 'ollama';
+    readonly model = process.env.LLM_MODEL ?? "llama3.3:70b-instruct-q3_K_M";
     private readonly baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    // num_ctx the server runs models with (its OLLAMA_CONTEXT_LENGTH) unless the model sets one
+    private readonly defaultNumCtx = parseInt(process.env.OLLAMA_NUM_CTX ?? '4096', 10);
+    private window?: number;
+    private windowFailedAt = 0;
     
     // Server endpoints configuration
     //private readonly baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
@@ -43,6 +51,35 @@ export class OllamaService {
 
     constructor(private readonly http: HttpService) { }
 
+    /**
+     * The OpenAI-compatible endpoint cannot change num_ctx, so the window is
+     * the model's own num_ctx parameter from /api/show or else the server
+     * default, never more than the model was trained for. A failed lookup
+     * is retried after a minute.
+     */
+    async contextTokens(): Promise<number | undefined> {
+        if (this.window) return this.window;
+        if (Date.now() - this.windowFailedAt < 60000) return this.defaultNumCtx;
+        try {
+            const resp = await firstValueFrom(
+                this.http.post<{ parameters?: string; model_info?: Record<string, unknown> }>(
+                    `${this.baseUrl}/api/show`,
+                    { model: this.model },
+                    { timeout: 10000 },
+                ),
+            );
+            const numCtx = /^\s*num_ctx\s+(\d+)/m.exec(resp.data.parameters ?? '')?.[1];
+            const trained = Object.entries(resp.data.model_info ?? {})
+                .find(([key, value]) => key.endsWith('.context_length') && typeof value === 'number')?.[1] as number | undefined;
+            const served = numCtx ? parseInt(numCtx, 10) : this.defaultNumCtx;
+            this.window = trained ? Math.min(served, trained) : served;
+            return this.window;
+        } catch {
+            this.windowFailedAt = Date.now();
+            return this.defaultNumCtx;
+        }
+    }
+
     async chatCompletion(params: {
         messages: ChatMessage[];
         temperature?: number;
@@ -51,7 +88,7 @@ export class OllamaService {
     }) {
         const url = `${this.baseUrl}/v1/chat/completions`;
         const body = {
-            model: process.env.LLM_MODEL ?? "llama3.3:70b-instruct-q3_K_M",
+            model: this.model,
             messages: params.messages,
             temperature: params.temperature ?? 0.3,
             max_tokens: params.maxTokens ?? 1024,
@@ -75,6 +112,36 @@ export class OllamaService {
         }
     }
 
+    async *chatCompletionStream(params: {
+        messages: ChatMessage[];
+        temperature?: number;
+        maxTokens?: number;
+        extra?: Record<string, any>;
+    }): AsyncGenerator<string> {
+        const url = `${this.baseUrl}/v1/chat/completions`;
+        const body = {
+            model: this.model,
+            messages: params.messages,
+            temperature: params.temperature ?? 0.3,
+            max_tokens: params.maxTokens ?? 1024,
+            keep_alive: process.env.OLLAMA_KEEP_ALIVE ?? "30m",
+            ...(params.extra ?? {}),
+            stream: true,
+        };
+
+        const resp = await firstValueFrom(
+            this.http.post(url, body, {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'text/event-stream',
+                },
+                responseType: 'stream',
+                timeout: this.chatCompletionTimeout,
+            }),
+        );
+        yield* readChatCompletionStream(resp.data);
+    }
+
     async createEmbeddings(params: {
         input: string | string[];
         encodingFormat?: 'float' | 'base64';
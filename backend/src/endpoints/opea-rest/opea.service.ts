@@ -17,6 +17,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { readChatCompletionStream } from '../llm/openai-stream';
+import { EmbeddingProvider, LlmProvider, ProviderName } from '../llm/llm-provider.interface';
 
 type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
 
@@ -37,7 +39,8 @@ export interface RerankResult {
 }
 
 @Injectable()
-export class OpeaService {
+export class OpeaService implements LlmProvider, EmbeddingProvider {
+    readonly name: ProviderName = 'opea';
     private readonly logger = new Logger(OpeaService.name);
     
     // OpenVINO Model Server (OVMS) backend endpoints
@@ -59,6 +62,17 @@ export class OpeaService {
     private readonly embeddingTimeout: number;
     private readonly rerankTimeout: number;
 
+    // the MegaService ChatQnA pipeline drops `tools`
+    get supportsTools(): boolean {
+        return this.backendMode === 'ovms';
+    }
+
+    get model(): string {
+        return this.backendMode === 'ovms'
+            ? this.llmModelName
+            : process.env.OPEA_LLM_MODEL ?? "meta-llama/Meta-Llama-3-8B-Instruct";
+    }
+
     constructor(private readonly http: HttpService) {
         // Backend mode configuration
         this.backendMode = (process.env.OPEA_BACKEND_MODE || 'ovms') as 'ovms' | 'megaservice';
@@ -122,6 +136,55 @@ export class OpeaService {
         }
     }
 
+    /**
+     * Streamed chat completion, yielding content deltas.
+     * OVMS speaks the OpenAI SSE format; the MegaService ChatQnA stream
+     * does not, so that mode falls back to a single non-streamed answer.
+     */
+    async *chatCompletionStream(params: {
+        messages: ChatMessage[];
+        temperature?: number;
+        maxTokens?: number;
+        extra?: Record<string, any>;
+    }): AsyncGenerator<string> {
+        if (this.backendMode !== 'ovms') {
+            const completion = await this.chatCompletionMegaService(params);
+            const content = completion?.choices?.[0]?.message?.content;
+            if (typeof content === 'string' && content.length > 0) yield content;
+            return;
+        }
+
+        const url = process.env.OPEA_LLM_URL || `${this.ovmsBaseUrl}/v3/chat/completions`;
+        const body = {
+            model: params.extra?.model || this.llmModelName,
+            messages: params.messages,
+            temperature: params.temperature ?? 0.3,
+            max_tokens: params.maxTokens ?? 1024,
+            ...(params.extra ?? {}),
+            stream: true,
+        };
+
+        let resp;
+        try {
+            this.logger.debug(`[OPEA/OVMS] Streaming chat request to ${url} with model ${body.model}`);
+
+            resp = await firstValueFrom(
+                this.http.post(url, body, {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Accept': 'text/event-stream',
+                    },
+                    responseType: 'stream',
+                    timeout: this.chatCompletionTimeout,
+                }),
+            );
+        } catch (error) {
+            this.logger.error(`[OPEA/OVMS] Streaming chat completion failed: ${error.message}`);
+            throw new Error(`OPEA/OVMS streaming chat completion failed: ${error.message}`);
+        }
+        yield* readChatCompletionStream(resp.data);
+    }
+
     /**
      * Chat completion via OpenVINO Model Server (OVMS)
      * Uses OpenAI-compatible API format
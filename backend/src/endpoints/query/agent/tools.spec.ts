@@ -0,0 +1,62 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  AGENT_TOOLS,
+  isAgentTool,
+  parseToolArguments,
+  toolResultContent,
+  toStringList,
+} from './tools';
+
+describe('agent tools', () => {
+  it('declares the four tools', () => {
+    expect(AGENT_TOOLS.map((t) => t.function.name)).toEqual([
+      'search_manuals',
+      'get_timeseries',
+      'get_alerts',
+      'get_asset_properties',
+    ]);
+    expect(isAgentTool('get_alerts')).toBe(true);
+    expect(isAgentTool('rm_rf')).toBe(false);
+  });
+
+  it('parses tool arguments leniently', () => {
+    expect(parseToolArguments('{"query":"spindle"}')).toEqual({
+      query: 'spindle',
+    });
+    expect(parseToolArguments('```json\n{"asset":"urn:x"}\n```')).toEqual({
+      asset: 'urn:x',
+    });
+    expect(parseToolArguments({ last: '6h' })).toEqual({ last: '6h' });
+    expect(parseToolArguments('')).toEqual({});
+    expect(parseToolArguments('[1,2]')).toEqual({});
+    expect(parseToolArguments('{not json')).toEqual({});
+  });
+
+  it('truncates long tool results', () => {
+    expect(toolResultContent({ a: 1 }, 100)).toBe('{"a":1}');
+    expect(toolResultContent('x'.repeat(20), 5)).toBe(
+      'xxxxx… [truncated 15 chars]',
+    );
+  });
+
+  it('normalizes string-or-list arguments', () => {
+    expect(toStringList(' temp ')).toEqual(['temp']);
+    expect(toStringList(['a', 'a', '', 3, null])).toEqual(['a', '3']);
+    expect(toStringList(undefined)).toEqual([]);
+  });
+});
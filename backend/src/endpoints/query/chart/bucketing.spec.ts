@@ -0,0 +1,74 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { aggregateBuckets, chooseBucket, parseAggregation } from './bucketing';
+
+describe('bucketing', () => {
+  const from = '2025-09-01T00:00:00.000Z';
+
+  it('keeps the bucket count at or below the target', () => {
+    expect(chooseBucket(from, '2025-09-02T00:00:00.000Z', 200).label).toBe(
+      '10m',
+    );
+    expect(chooseBucket(from, '2025-09-01T01:00:00.000Z', 200).label).toBe(
+      '30s',
+    );
+    expect(chooseBucket(from, '2025-09-08T00:00:00.000Z', 200).label).toBe(
+      '1h',
+    );
+  });
+
+  it('caps very long windows at the widest bucket', () => {
+    expect(chooseBucket(from, '2030-01-01T00:00:00.000Z', 10).label).toBe('1w');
+  });
+
+  it('defaults unknown aggregations to avg', () => {
+    expect(parseAggregation('max')).toBe('max');
+    expect(parseAggregation('median')).toBe('avg');
+    expect(parseAggregation(undefined)).toBe('avg');
+  });
+
+  it('aggregates raw samples into buckets', () => {
+    const buckets = aggregateBuckets(
+      [
+        { t: '2025-09-01T00:00:10.000Z', v: 1 },
+        { t: '2025-09-01T00:00:50.000Z', v: 3 },
+        { t: '2025-09-01T00:01:05.000Z', v: 10 },
+        { t: 'garbage', v: 99 },
+        { t: '2025-09-01T00:01:30.000Z', v: NaN },
+      ],
+      60,
+    );
+    expect(buckets).toEqual([
+      {
+        t: '2025-09-01T00:00:00.000Z',
+        avg: 2,
+        min: 1,
+        max: 3,
+        last: 3,
+        count: 2,
+      },
+      {
+        t: '2025-09-01T00:01:00.000Z',
+        avg: 10,
+        min: 10,
+        max: 10,
+        last: 10,
+        count: 1,
+      },
+    ]);
+  });
+});
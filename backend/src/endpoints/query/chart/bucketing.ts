@@ -0,0 +1,127 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export type Aggregation = 'avg' | 'min' | 'max' | 'last';
+
+export const AGGREGATIONS: Aggregation[] = ['avg', 'min', 'max', 'last'];
+
+export interface Bucket {
+  seconds: number;
+  label: string;
+}
+
+// Human-friendly bucket widths, smallest first.
+const STEPS: Bucket[] = [
+  { seconds: 1, label: '1s' },
+  { seconds: 5, label: '5s' },
+  { seconds: 10, label: '10s' },
+  { seconds: 30, label: '30s' },
+  { seconds: 60, label: '1m' },
+  { seconds: 120, label: '2m' },
+  { seconds: 300, label: '5m' },
+  { seconds: 600, label: '10m' },
+  { seconds: 900, label: '15m' },
+  { seconds: 1800, label: '30m' },
+  { seconds: 3600, label: '1h' },
+  { seconds: 7200, label: '2h' },
+  { seconds: 10800, label: '3h' },
+  { seconds: 21600, label: '6h' },
+  { seconds: 43200, label: '12h' },
+  { seconds: 86400, label: '1d' },
+  { seconds: 604800, label: '1w' },
+];
+
+/**
+ * Picks the smallest "nice" bucket width that keeps the window at or below
+ * `targetPoints` buckets.
+ */
+export function chooseBucket(
+  from: string,
+  to: string,
+  targetPoints: number,
+): Bucket {
+  const spanSec = Math.max(1, (Date.parse(to) - Date.parse(from)) / 1000);
+  const wanted = spanSec / Math.max(1, targetPoints);
+  return (
+    STEPS.find((step) => step.seconds >= wanted) ?? STEPS[STEPS.length - 1]
+  );
+}
+
+export function parseAggregation(value?: string | null): Aggregation {
+  return AGGREGATIONS.includes(value as Aggregation)
+    ? (value as Aggregation)
+    : 'avg';
+}
+
+export interface BucketStats {
+  /** bucket start, ISO-8601 UTC */
+  t: string;
+  avg: number;
+  min: number;
+  max: number;
+  last: number;
+  count: number;
+}
+
+/**
+ * Client-side equivalent of the SQL bucketing for sources that only hand
+ * out raw rows. `samples` must be sorted by time, oldest first.
+ */
+export function aggregateBuckets(
+  samples: Array<{ t: string; v: number }>,
+  bucketSeconds: number,
+): BucketStats[] {
+  const size = Math.max(1, bucketSeconds) * 1000;
+  const out: BucketStats[] = [];
+  let current: (BucketStats & { start: number; sum: number }) | null = null;
+
+  for (const { t, v } of samples) {
+    const time = Date.parse(t);
+    if (!Number.isFinite(time) || !Number.isFinite(v)) continue;
+    const start = Math.floor(time / size) * size;
+    if (!current || current.start !== start) {
+      if (current) out.push(finish(current));
+      current = {
+        start,
+        t: new Date(start).toISOString(),
+        sum: 0,
+        avg: 0,
+        min: v,
+        max: v,
+        last: v,
+        count: 0,
+      };
+    }
+    current.sum += v;
+    current.count++;
+    current.min = Math.min(current.min, v);
+    current.max = Math.max(current.max, v);
+    current.last = v;
+  }
+  if (current) out.push(finish(current));
+  return out;
+}
+
+function finish({
+  t,
+  sum,
+  min,
+  max,
+  last,
+  count,
+}: BucketStats & { sum: number }): BucketStats {
+  return { t, avg: sum / count, min, max, last, count };
+}
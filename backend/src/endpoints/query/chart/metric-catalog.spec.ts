@@ -0,0 +1,69 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  attributeName,
+  CatalogAttribute,
+  matchMetric,
+  toAttributeId,
+} from './metric-catalog';
+
+const attr = (name: string, lastSeen = '2025-09-01T00:00:00.000Z') =>
+  ({
+    attributeId: `https://industry-fusion.org/base/v0.1/${name}`,
+    name,
+    lastSeen,
+    samples: 10,
+  }) as CatalogAttribute;
+
+describe('metric-catalog', () => {
+  const catalog = [
+    attr('temperature'),
+    attr('spindle_load'),
+    attr('spindle_load_peak_average'),
+    attr('machine_state'),
+    attr('powerConsumption'),
+  ];
+
+  it('strips the namespace from attribute IRIs', () => {
+    expect(
+      attributeName('https://industry-fusion.org/base/v0.1/temperature'),
+    ).toBe('temperature');
+    expect(attributeName('http://example.org/ns#rpm')).toBe('rpm');
+    expect(toAttributeId('temperature')).toBe(
+      'https://industry-fusion.org/base/v0.1/temperature',
+    );
+    expect(toAttributeId('http://example.org/ns#rpm')).toBe(
+      'http://example.org/ns#rpm',
+    );
+  });
+
+  it('matches abbreviations and loose wording', () => {
+    expect(matchMetric('temp', catalog)?.attribute.name).toBe('temperature');
+    expect(matchMetric('spindle load', catalog)?.attribute.name).toBe(
+      'spindle_load',
+    );
+    expect(matchMetric('power consumption', catalog)?.attribute.name).toBe(
+      'powerConsumption',
+    );
+    expect(matchMetric('state', catalog)?.attribute.name).toBe('machine_state');
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(matchMetric('vibration', catalog)).toBeNull();
+    expect(matchMetric('temp', [])).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export const ATTRIBUTE_BASE = 'https://industry-fusion.org/base/v0.1/';
+
+export interface CatalogAttribute {
+  attributeId: string;
+  /** attributeId without its namespace, e.g. "spindle_load" */
+  name: string;
+  lastSeen: string;
+  samples: number;
+}
+
+export interface CatalogEntity {
+  entityId: string;
+  attributes: CatalogAttribute[];
+}
+
+export interface MetricMatch {
+  attribute: CatalogAttribute;
+  score: number;
+}
+
+/** Last path or fragment segment of an attribute IRI. */
+export function attributeName(attributeId: string): string {
+  return attributeId.split(/[/#]/).pop() || attributeId;
+}
+
+/** Full attribute IRI for a bare metric name; IRIs pass through. */
+export function toAttributeId(metric: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(metric) ? metric : ATTRIBUTE_BASE + metric;
+}
+
+function tokens(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function bigrams(text: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) out.push(text.slice(i, i + 2));
+  return out;
+}
+
+function dice(a: string, b: string): number {
+  if (a === b) return 1;
+  const x = bigrams(a);
+  const y = bigrams(b);
+  if (!x.length || !y.length) return 0;
+  const rest = [...y];
+  let hits = 0;
+  for (const g of x) {
+    const i = rest.indexOf(g);
+    if (i >= 0) {
+      hits++;
+      rest.splice(i, 1);
+    }
+  }
+  return (2 * hits) / (x.length + y.length);
+}
+
+function tokenScore(q: string, n: string): number {
+  if (q === n) return 1;
+  // abbreviations: "temp" → "temperature"
+  if (q.length >= 3 && n.length >= 3 && (n.startsWith(q) || q.startsWith(n))) {
+    return 0.9;
+  }
+  return dice(q, n);
+}
+
+/** Similarity in [0, 1] between user wording and an attribute name. */
+export function metricSimilarity(wording: string, name: string): number {
+  const q = tokens(wording);
+  const n = tokens(name);
+  if (!q.length || !n.length) return 0;
+  if (q.join('_') === n.join('_')) return 1;
+
+  const perQuery = q.map((qt) =>
+    Math.max(...n.map((nt) => tokenScore(qt, nt))),
+  );
+  const covered = n.filter((nt) =>
+    q.some((qt) => tokenScore(qt, nt) >= 0.75),
+  ).length;
+  // "load" should prefer "spindle_load" over "spindle_load_peak_average"
+  const byTokens =
+    (perQuery.reduce((a, b) => a + b, 0) / q.length) *
+    (0.8 + (0.2 * covered) / n.length);
+  return Math.max(byTokens, dice(q.join(''), n.join('')));
+}
+
+/**
+ * Best catalog attribute for the user's wording, or null when nothing
+ * scores at least `threshold`. Ties go to the most recently seen attribute.
+ */
+export function matchMetric(
+  wording: string,
+  attributes: CatalogAttribute[],
+  threshold = 0.6,
+): MetricMatch | null {
+  let best: MetricMatch | null = null;
+  for (const attribute of attributes) {
+    const score = metricSimilarity(wording, attribute.name);
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && attribute.lastSeen > best.attribute.lastSeen)
+    ) {
+      best = { attribute, score };
+    }
+  }
+  return best && best.score >= threshold ? best : null;
+}
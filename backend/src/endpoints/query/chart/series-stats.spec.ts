@@ -0,0 +1,69 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { computeSeriesStats, percentile } from './series-stats';
+
+const at = (minute: number) =>
+  new Date(Date.UTC(2025, 8, 1, 12, minute)).toISOString();
+
+describe('series-stats', () => {
+  it('computes percentiles by interpolation', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10], 95)).toBe(10);
+  });
+
+  it('describes a steady series', () => {
+    const stats = computeSeriesStats(
+      [2, 4, 4, 4, 5, 5, 7, 9].map((v, i) => ({ t: at(i), v })),
+    );
+    expect(stats).toMatchObject({
+      count: 8,
+      mean: 5,
+      stdDev: 2,
+      min: 2,
+      max: 9,
+      trend: 'rising',
+      anomalies: [],
+    });
+    expect(stats!.slopePerHour).toBeGreaterThan(0);
+  });
+
+  it('flags spikes against the rolling window', () => {
+    const values = [10, 11, 10, 9, 10, 11, 10, 9, 10, 11, 30, 10, 11];
+    const stats = computeSeriesStats(values.map((v, i) => ({ t: at(i), v })));
+    expect(stats!.anomalies).toHaveLength(1);
+    expect(stats!.anomalies[0]).toMatchObject({
+      t: at(10),
+      v: 30,
+      direction: 'spike',
+      method: 'rolling',
+    });
+    expect(stats!.anomalies[0].ratio).toBeCloseTo(3, 0);
+  });
+
+  it('reports gaps longer than twice the interval', () => {
+    const stats = computeSeriesStats(
+      [0, 1, 2, 10, 11].map((m) => ({ t: at(m), v: 1 })),
+      { intervalSeconds: 60 },
+    );
+    expect(stats!.trend).toBe('flat');
+    expect(stats!.gaps).toEqual([{ from: at(2), to: at(10), seconds: 480 }]);
+  });
+
+  it('returns null without numeric points', () => {
+    expect(computeSeriesStats([{ t: at(0), v: NaN }])).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export interface SeriesGap {
+  from: string;
+  to: string;
+  seconds: number;
+}
+
+export interface SeriesAnomaly {
+  t: string;
+  v: number;
+  /** distance from the baseline in standard deviations */
+  score: number;
+  /** value relative to the baseline mean, e.g. 3 for "3× normal" */
+  ratio: number | null;
+  direction: 'spike' | 'drop';
+  method: 'zscore' | 'rolling';
+}
+
+export interface SeriesStats {
+  count: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  /** least-squares slope in value units per hour */
+  slopePerHour: number;
+  trend: 'rising' | 'falling' | 'flat';
+  gaps: SeriesGap[];
+  anomalies: SeriesAnomaly[];
+}
+
+export interface StatsOptions {
+  /** expected spacing of points; gaps are spans longer than twice this */
+  intervalSeconds?: number;
+  zThreshold?: number;
+  rollingWindow?: number;
+  maxAnomalies?: number;
+}
+
+function meanOf(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function stdDevOf(xs: number[], mean: number): number {
+  return Math.sqrt(xs.reduce((a, x) => a + (x - mean) ** 2, 0) / xs.length);
+}
+
+/** Linear-interpolated percentile of an ascending array, p in [0, 100]. */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function anomaly(
+  t: string,
+  v: number,
+  baseMean: number,
+  baseStd: number,
+  method: SeriesAnomaly['method'],
+): SeriesAnomaly {
+  return {
+    t,
+    v,
+    score: Math.abs(v - baseMean) / baseStd,
+    ratio: baseMean !== 0 ? v / baseMean : null,
+    direction: v >= baseMean ? 'spike' : 'drop',
+    method,
+  };
+}
+
+/**
+ * Descriptive statistics, data gaps and outliers for a chart series.
+ * Outliers are points whose global z-score or whose distance from the
+ * preceding `rollingWindow` points exceeds `zThreshold` standard deviations;
+ * the strongest `maxAnomalies` are kept, in time order.
+ */
+export function computeSeriesStats(
+  points: Array<{ t: string; v: number }>,
+  options: StatsOptions = {},
+): SeriesStats | null {
+  const zThreshold = options.zThreshold ?? 3;
+  const window = options.rollingWindow ?? 10;
+  const maxAnomalies = options.maxAnomalies ?? 10;
+
+  const valid = points
+    .filter((p) => Number.isFinite(p.v) && Number.isFinite(Date.parse(p.t)))
+    .sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+  if (!valid.length) return null;
+
+  const values = valid.map((p) => p.v);
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = meanOf(values);
+  const stdDev = stdDevOf(values, mean);
+
+  // least squares over time in hours
+  const t0 = Date.parse(valid[0].t);
+  const hours = valid.map((p) => (Date.parse(p.t) - t0) / 3_600_000);
+  const meanH = meanOf(hours);
+  const sxx = hours.reduce((a, h) => a + (h - meanH) ** 2, 0);
+  const sxy = hours.reduce(
+    (a, h, i) => a + (h - meanH) * (values[i] - mean),
+    0,
+  );
+  const slopePerHour = sxx > 0 ? sxy / sxx : 0;
+  const span = hours[hours.length - 1];
+  const change = slopePerHour * span;
+  const scale = Math.max(Math.abs(mean), sorted[sorted.length - 1] - sorted[0]);
+  const trend =
+    scale === 0 || Math.abs(change) < 0.05 * scale
+      ? 'flat'
+      : change > 0
+        ? 'rising'
+        : 'falling';
+
+  const gaps: SeriesGap[] = [];
+  if (options.intervalSeconds) {
+    const limit = options.intervalSeconds * 2 * 1000;
+    for (let i = 1; i < valid.length; i++) {
+      const dt = Date.parse(valid[i].t) - Date.parse(valid[i - 1].t);
+      if (dt > limit) {
+        gaps.push({ from: valid[i - 1].t, to: valid[i].t, seconds: dt / 1000 });
+      }
+    }
+  }
+
+  const found = new Map<string, SeriesAnomaly>();
+  const keep = (a: SeriesAnomaly) => {
+    const prev = found.get(a.t);
+    if (!prev || a.score > prev.score) found.set(a.t, a);
+  };
+  valid.forEach((p, i) => {
+    if (stdDev > 0 && Math.abs(p.v - mean) / stdDev >= zThreshold) {
+      keep(anomaly(p.t, p.v, mean, stdDev, 'zscore'));
+    }
+    if (i >= window) {
+      const prior = values.slice(i - window, i);
+      const m = meanOf(prior);
+      const s = stdDevOf(prior, m);
+      if (s > 0 && Math.abs(p.v - m) / s >= zThreshold) {
+        keep(anomaly(p.t, p.v, m, s, 'rolling'));
+      }
+    }
+  });
+  const anomalies = [...found.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxAnomalies)
+    .sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+
+  return {
+    count: values.length,
+    mean,
+    stdDev,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p5: percentile(sorted, 5),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    slopePerHour,
+    trend,
+    gaps,
+    anomalies,
+  };
+}
@@ -0,0 +1,96 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  formatInTimeZone,
+  parseInTimeZone,
+  parseWindow,
+  resolveTimeRange,
+} from './time-range';
+
+describe('time-range', () => {
+  const now = new Date('2025-09-02T12:00:00.000Z');
+
+  it('parses window specs', () => {
+    expect(parseWindow('24h')).toEqual({ value: 24, unit: 'h' });
+    expect(parseWindow(' 7D ')).toEqual({ value: 7, unit: 'd' });
+    expect(parseWindow('soon')).toBeNull();
+  });
+
+  it('resolves "last 6h" against now', () => {
+    expect(
+      resolveTimeRange({ last: { value: 6, unit: 'h' } }, { now }),
+    ).toEqual({
+      from: '2025-09-02T06:00:00.000Z',
+      to: '2025-09-02T12:00:00.000Z',
+      source: 'relative',
+    });
+  });
+
+  it('falls back to the default window when no range is given', () => {
+    const range = resolveTimeRange(
+      {},
+      { now, defaultWindow: { value: 7, unit: 'd' } },
+    );
+    expect(range).toEqual({
+      from: '2025-08-26T12:00:00.000Z',
+      to: '2025-09-02T12:00:00.000Z',
+      source: 'default',
+    });
+  });
+
+  it('treats an open-ended "from" as until now', () => {
+    const range = resolveTimeRange(
+      { from: '2025-09-02T08:00:00' },
+      { now, timeZone: 'UTC' },
+    );
+    expect(range.from).toBe('2025-09-02T08:00:00.000Z');
+    expect(range.to).toBe(now.toISOString());
+  });
+
+  it('interprets naive datetimes in the configured time zone', () => {
+    // CEST is UTC+2 in September
+    expect(
+      parseInTimeZone(
+        '2025-09-01T21:58:35.808',
+        'Europe/Berlin',
+      )?.toISOString(),
+    ).toBe('2025-09-01T19:58:35.808Z');
+    // winter time is UTC+1
+    expect(
+      parseInTimeZone('2025-01-15T10:00:00', 'Europe/Berlin')?.toISOString(),
+    ).toBe('2025-01-15T09:00:00.000Z');
+    // explicit offsets are kept as-is
+    expect(
+      parseInTimeZone('2025-09-01T10:00:00Z', 'Europe/Berlin')?.toISOString(),
+    ).toBe('2025-09-01T10:00:00.000Z');
+  });
+
+  it('swaps reversed ranges and ignores unparseable dates', () => {
+    const range = resolveTimeRange(
+      { from: '2025-09-02T11:00:00Z', to: '2025-09-01T11:00:00Z' },
+      { now },
+    );
+    expect(range.from).toBe('2025-09-01T11:00:00.000Z');
+    expect(resolveTimeRange({ from: 'yesterday-ish' }, { now }).source).toBe(
+      'default',
+    );
+  });
+
+  it('formats wall time in a zone', () => {
+    expect(formatInTimeZone(now, 'Europe/Berlin')).toBe('2025-09-02T14:00:00');
+  });
+});
@@ -0,0 +1,145 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export type RelativeUnit = 'm' | 'h' | 'd' | 'w';
+
+export interface RelativeWindow {
+  value: number;
+  unit: RelativeUnit;
+}
+
+export interface TimeRange {
+  /** ISO-8601 UTC */
+  from: string;
+  /** ISO-8601 UTC */
+  to: string;
+  source: 'explicit' | 'relative' | 'default';
+}
+
+export const UNIT_MS: Record<RelativeUnit, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Parses "30m", "24h", "7d", "2w" into a relative window. */
+export function parseWindow(spec: string): RelativeWindow | null {
+  const m = /^\s*(\d+)\s*([mhdw])\s*$/i.exec(spec ?? '');
+  if (!m) return null;
+  return { value: Number(m[1]), unit: m[2].toLowerCase() as RelativeUnit };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Interprets a datetime string in `timeZone` unless it already carries an
+ * offset ("Z", "+02:00"). Returns null for unparseable input.
+ */
+export function parseInTimeZone(value: string, timeZone: string): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    const t = Date.parse(trimmed);
+    return Number.isFinite(t) ? new Date(t) : null;
+  }
+
+  const m =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/.exec(
+      trimmed,
+    );
+  if (!m) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', ms = '0'] = m;
+  const naiveUtc = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, +ms.padEnd(3, '0'));
+
+  // Two passes so a wall time next to a DST switch lands on the right offset.
+  let utc = naiveUtc - offsetMs(new Date(naiveUtc), timeZone);
+  utc = naiveUtc - offsetMs(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/** Local wall time in `timeZone`, formatted like 2025-09-01T21:58:35. */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const local = new Date(date.getTime() + offsetMs(date, timeZone));
+  return local.toISOString().slice(0, 19);
+}
+
+/**
+ * Turns the time part of a chart intent into a concrete UTC window.
+ * - explicit from/to win (a missing `to` means "until now"),
+ * - otherwise `last` counts back from `to` or now,
+ * - otherwise `defaultWindow` counts back from now.
+ */
+export function resolveTimeRange(
+  intent: {
+    last?: RelativeWindow | null;
+    from?: string | null;
+    to?: string | null;
+  },
+  options: { now?: Date; timeZone?: string; defaultWindow?: RelativeWindow },
+): TimeRange {
+  const now = options.now ?? new Date();
+  const tz = options.timeZone || 'UTC';
+  const fallback = options.defaultWindow ?? { value: 24, unit: 'h' };
+
+  const from = intent.from ? parseInTimeZone(intent.from, tz) : null;
+  const to = intent.to ? parseInTimeZone(intent.to, tz) : null;
+  const end = to ?? now;
+
+  let start: Date;
+  let source: TimeRange['source'];
+  if (from) {
+    start = from;
+    source = 'explicit';
+  } else if (
+    intent.last &&
+    intent.last.value > 0 &&
+    UNIT_MS[intent.last.unit]
+  ) {
+    start = new Date(
+      end.getTime() - intent.last.value * UNIT_MS[intent.last.unit],
+    );
+    source = 'relative';
+  } else {
+    start = new Date(end.getTime() - fallback.value * UNIT_MS[fallback.unit]);
+    source = to ? 'explicit' : 'default';
+  }
+
+  const [a, b] = start <= end ? [start, end] : [end, start];
+  return { from: a.toISOString(), to: b.toISOString(), source };
+}
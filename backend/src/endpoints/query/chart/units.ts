@@ -0,0 +1,46 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+// UN/CEFACT Recommendation 20 codes as stored in "unitCode" by the PDT.
+const UNIT_SYMBOLS: Record<string, string> = {
+  CEL: '°C',
+  FAH: '°F',
+  KEL: 'K',
+  WTT: 'W',
+  KWT: 'kW',
+  KWH: 'kWh',
+  AMP: 'A',
+  VLT: 'V',
+  HTZ: 'Hz',
+  BAR: 'bar',
+  PAL: 'Pa',
+  RPM: 'rpm',
+  P1: '%',
+  MMT: 'mm',
+  MTR: 'm',
+  MTS: 'm/s',
+  LTR: 'l',
+  KGM: 'kg',
+  SEC: 's',
+  MIN: 'min',
+};
+
+/** Display symbol for a unit code; unknown codes are shown as-is. */
+export function unitLabel(code?: string | null): string | null {
+  if (!code) return null;
+  const trimmed = code.trim();
+  return UNIT_SYMBOLS[trimmed.toUpperCase()] ?? trimmed;
+}
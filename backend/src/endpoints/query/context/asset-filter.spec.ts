@@ -0,0 +1,73 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  assetFilter,
+  NOT_QUARANTINED,
+  scopedAssets,
+  withoutQuarantined,
+} from './asset-filter';
+
+describe('assetFilter', () => {
+  it('is undefined without a selection', () => {
+    expect(assetFilter({ names: [' '], urns: [] })).toBeUndefined();
+  });
+
+  it('matches JSON-LD labels and PDF owner lists', () => {
+    const filter = assetFilter({
+      names: ['Laser Cutter', 'Laser Cutter'],
+      urns: ['urn:iff:asset:1'],
+    });
+    expect(filter).toBe(
+      'labels["asset_name"] in ["Laser Cutter"] or ' +
+        'labels["machine_id"] in ["Laser Cutter"] or ' +
+        'json_contains_any(labels["asset_names"], ["Laser Cutter"]) or ' +
+        'labels["entityId"] in ["urn:iff:asset:1"] or ' +
+        'labels["machine_id"] in ["urn:iff:asset:1"] or ' +
+        'json_contains_any(labels["entity_ids"], ["urn:iff:asset:1"])',
+    );
+  });
+
+  it('escapes quotes in names', () => {
+    expect(assetFilter({ names: ['12" press'], urns: [] })).toContain(
+      '["12\\" press"]',
+    );
+  });
+
+  it("limits a picked machine to its own chunks, not the user's other assets", () => {
+    const names = scopedAssets(['Press A'], ['Press A', 'Press B', 'Lathe C']);
+    expect(names).toEqual(['Press A']);
+    const filter = assetFilter({ names, urns: [] });
+    expect(filter).toContain('"Press A"');
+    expect(filter).not.toContain('Press B');
+    expect(filter).not.toContain('Lathe C');
+  });
+
+  it('falls back to all assets when none is picked', () => {
+    expect(scopedAssets([], ['Press A', 'Press B'])).toEqual([
+      'Press A',
+      'Press B',
+    ]);
+    expect(scopedAssets([' '], ['Press A'])).toEqual(['Press A']);
+  });
+
+  it('excludes quarantined chunks with or without a selection', () => {
+    expect(withoutQuarantined()).toBe(NOT_QUARANTINED);
+    expect(withoutQuarantined('a or b')).toBe(
+      `(a or b) and ${NOT_QUARANTINED}`,
+    );
+  });
+});
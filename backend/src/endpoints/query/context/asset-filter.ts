@@ -0,0 +1,79 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Milvus filter expressions that restrict retrieval to the chunks of the
+ * selected assets. JSON-LD chunks carry `asset_name`, `machine_id` and
+ * `entityId`; manual chunks list every asset linking the PDF in
+ * `asset_names`, `machine_ids` and `entity_ids`.
+ */
+
+export interface AssetScope {
+  // asset / product names and machine ids as the user selected them
+  names: string[];
+  // asset URNs
+  urns: string[];
+}
+
+function list(values: string[]): string {
+  return `[${values.map((v) => JSON.stringify(v)).join(', ')}]`;
+}
+
+/**
+ * Assets to scope retrieval to. `vectorStoreIds` are the machines picked in
+ * the chat; `assets` is everything the user may see and only counts when
+ * nothing is picked.
+ */
+export function scopedAssets(
+  vectorStoreIds: string[] = [],
+  assets: string[] = [],
+): string[] {
+  const picked = vectorStoreIds.filter((n) => n.trim());
+  return [...new Set(picked.length ? picked : assets)];
+}
+
+/** Chunks the ingest did not quarantine as prompt injection. */
+export const NOT_QUARANTINED = 'not (labels["quarantine"] == true)';
+
+/**
+ * `filter` narrowed to chunks that are not quarantined, so quarantined hits
+ * never take a top-K slot.
+ */
+export function withoutQuarantined(filter?: string): string {
+  return filter ? `(${filter}) and ${NOT_QUARANTINED}` : NOT_QUARANTINED;
+}
+
+/** Filter for `scope`, or undefined when nothing is selected. */
+export function assetFilter(scope: AssetScope): string | undefined {
+  const names = [...new Set(scope.names.map((n) => n.trim()).filter(Boolean))];
+  const urns = [...new Set(scope.urns.map((u) => u.trim()).filter(Boolean))];
+  const terms: string[] = [];
+  if (names.length) {
+    terms.push(
+      `labels["asset_name"] in ${list(names)}`,
+      `labels["machine_id"] in ${list(names)}`,
+      `json_contains_any(labels["asset_names"], ${list(names)})`,
+    );
+  }
+  if (urns.length) {
+    terms.push(
+      `labels["entityId"] in ${list(urns)}`,
+      `labels["machine_id"] in ${list(urns)}`,
+      `json_contains_any(labels["entity_ids"], ${list(urns)})`,
+    );
+  }
+  return terms.length ? terms.join(' or ') : undefined;
+}
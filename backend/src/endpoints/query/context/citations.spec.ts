@@ -0,0 +1,68 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  citedNumbers,
+  citeSources,
+  sourceLabel,
+  toSourceRecord,
+} from './citations';
+
+describe('citations', () => {
+  const records = [1, 2, 3, 4].map((n) =>
+    toSourceRecord(
+      {
+        filename: `manual-${n}.pdf`,
+        page_no: String(n * 10),
+        sourceUrl: `https://docs.example.com/manual-${n}.pdf`,
+      },
+      { distance: 0.5 },
+      n,
+    ),
+  );
+
+  it('builds source records from labels', () => {
+    expect(records[0]).toEqual({
+      n: 1,
+      filename: 'manual-1.pdf',
+      page: 10,
+      sourceUrl: 'https://docs.example.com/manual-1.pdf',
+      score: 0.5,
+      cited: false,
+    });
+    expect(sourceLabel({ ...records[1], section_path: '4.2 Coolant' })).toBe(
+      'manual-2.pdf › 4.2 Coolant (p. 20)',
+    );
+    expect(toSourceRecord({ source: 'data/jsonld/a.json' }, {}, 5)).toEqual({
+      n: 5,
+      filename: 'a.json',
+      cited: false,
+    });
+  });
+
+  it('reads single, grouped and adjacent markers', () => {
+    expect(citedNumbers('Drain it [3]. Then refill [1, 3][2].')).toEqual([
+      3, 1, 2,
+    ]);
+  });
+
+  it('returns cited sources and flags unknown markers', () => {
+    const { sources, unknown } = citeSources('See [4] and [9].', records);
+    expect(sources.map((s) => [s.n, s.cited])).toEqual([[4, true]]);
+    expect(unknown).toEqual([9]);
+    expect(citeSources('No markers.', records).sources).toHaveLength(3);
+  });
+});
@@ -0,0 +1,97 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * [n] citations: retrieved excerpts are numbered in the prompt, the model
+ * cites them inline, and the reply is returned with the source records its
+ * markers point to.
+ */
+
+export interface SourceRecord {
+  // the [n] the excerpt had in the prompt
+  n: number;
+  filename: string;
+  section_path?: string;
+  page?: number;
+  sourceUrl?: string;
+  score?: number;
+  cited: boolean;
+}
+
+// uncited excerpts listed when the reply has no markers
+const UNCITED_FALLBACK = 3;
+
+/** Source record for hit number `n` from its (already parsed) labels. */
+export function toSourceRecord(
+  labels: Record<string, any>,
+  hit: Record<string, any>,
+  n: number,
+): SourceRecord {
+  const source = String(
+    labels.filename ?? labels.source ?? hit.name ?? `doc-${n}`,
+  );
+  const page = parseInt(String(labels.page_no ?? ''), 10);
+  const score = Number(hit.rerank_score ?? hit.score ?? hit.distance);
+  return {
+    n,
+    filename: source.split('/').pop() || source,
+    ...(labels.section_path
+      ? { section_path: String(labels.section_path) }
+      : {}),
+    ...(Number.isFinite(page) && page > 0 ? { page } : {}),
+    ...(labels.sourceUrl || hit.url
+      ? { sourceUrl: String(labels.sourceUrl ?? hit.url) }
+      : {}),
+    ...(Number.isFinite(score) ? { score } : {}),
+    cited: false,
+  };
+}
+
+/** Where an excerpt is from: `file › section (p. 4)`. */
+export function sourceLabel(record: SourceRecord): string {
+  const section = record.section_path ? ` › ${record.section_path}` : '';
+  const page = record.page ? ` (p. ${record.page})` : '';
+  return `${record.filename}${section}${page}`;
+}
+
+/** Marker numbers in order of first use; handles [1], [1, 3] and [1][2]. */
+export function citedNumbers(text: string): number[] {
+  const seen = new Set<number>();
+  for (const [, group] of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of group.split(',')) seen.add(parseInt(n, 10));
+  }
+  return [...seen];
+}
+
+/**
+ * Sources for a reply: the cited records in marker order, or the top
+ * uncited ones when the model cited nothing. Markers without a record are
+ * listed in `unknown`.
+ */
+export function citeSources(
+  reply: string,
+  records: SourceRecord[],
+): { sources: SourceRecord[]; unknown: number[] } {
+  const byN = new Map(records.map((r) => [r.n, r]));
+  const numbers = citedNumbers(reply);
+  const cited = numbers
+    .filter((n) => byN.has(n))
+    .map((n) => ({ ...byN.get(n)!, cited: true }));
+  return {
+    sources: cited.length ? cited : records.slice(0, UNCITED_FALLBACK),
+    unknown: numbers.filter((n) => !byN.has(n)),
+  };
+}
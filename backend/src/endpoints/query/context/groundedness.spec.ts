@@ -0,0 +1,77 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  annotateUnsupported,
+  checkGroundedness,
+  extractClaims,
+} from './groundedness';
+
+describe('groundedness', () => {
+  const context =
+    'Tighten the spindle nut to 45 Nm. Coolant pressure 6,5 bar. ' +
+    'Replace filter 6ES7-214-1AG40. Open Settings > Machine > Spindle.';
+
+  it('extracts values, part numbers and menu paths', () => {
+    const claims = extractClaims(
+      'Tighten to 45 Nm [1] and set 6.5 bar. Use filter 6ES7-214-1AG40 via Settings > Machine > Spindle.',
+    );
+    expect(claims).toEqual([
+      { kind: 'value', text: '45 Nm' },
+      { kind: 'value', text: '6.5 bar' },
+      { kind: 'part', text: '6ES7-214-1AG40' },
+      { kind: 'menu', text: 'Settings > Machine > Spindle' },
+    ]);
+  });
+
+  it('takes single-letter units only in their own case', () => {
+    expect(extractClaims('Use step 3 a then b, then option 2 c.')).toEqual([]);
+    expect(extractClaims('Supply 24 V at 2 A for 30 s.')).toEqual([
+      { kind: 'value', text: '24 V' },
+      { kind: 'value', text: '2 A' },
+      { kind: 'value', text: '30 s' },
+    ]);
+  });
+
+  it('scores claims against the evidence', () => {
+    const grounded = checkGroundedness(
+      'Use 45 Nm and 6.5 bar, filter 6ES7-214-1AG40.',
+      context,
+    );
+    expect(grounded.score).toBe(1);
+
+    const invented = checkGroundedness(
+      'Use 60 Nm and 6.5 bar, filter 6ES7-999.',
+      context,
+    );
+    expect(invented.unsupported.map((c) => c.text)).toEqual([
+      '60 Nm',
+      '6ES7-999',
+    ]);
+    expect(invented.score).toBeCloseTo(1 / 3);
+    expect(checkGroundedness('Check the filter.', context).score).toBe(1);
+  });
+
+  it('annotates unsupported claims', () => {
+    const { unsupported } = checkGroundedness('Use 60 Nm.', context);
+    expect(annotateUnsupported('Use 60 Nm.', unsupported)).toBe(
+      'Use 60 Nm ⚠️.\n\n> ⚠️ Not found in the manuals or machine data: `60 Nm`. Verify before use.',
+    );
+    expect(annotateUnsupported('Use 60 Nm.', unsupported, 'de')).toContain(
+      'Nicht in den Handbüchern oder Maschinendaten gefunden: `60 Nm`.',
+    );
+  });
+});
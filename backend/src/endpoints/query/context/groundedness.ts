@@ -0,0 +1,168 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Groundedness check: the values, part numbers and menu paths an answer
+ * states must appear in what the model was given (retrieved excerpts, tool
+ * results, the operator's own messages). Anything else is flagged.
+ */
+
+import type { Language } from './language';
+
+export type ClaimKind = 'value' | 'part' | 'menu';
+
+export interface Claim {
+  kind: ClaimKind;
+  text: string;
+  supported: boolean;
+}
+
+export interface Groundedness {
+  // supported / checked; 1 when the reply states nothing checkable
+  score: number;
+  checked: number;
+  unsupported: Claim[];
+  claims: Claim[];
+}
+
+// matched in any case
+const WORD_UNITS =
+  'mm|cm|km|µm|um|nm|n·m|n\\.m|kn|bar|mbar|psi|pa|kpa|mpa|°c|°f|rpm|1/min|hz|khz|kv|mv|ma|kw|mw|kwh|wh|va|kva|%|ms|min|ml|l/min|m³/h|kg|nm³|db|lux';
+// only as written, so list labels and step letters ("step 3 a") are no values
+const LETTER_UNITS = 'm|N|K|V|A|W|s|h|l|L|g|t';
+
+const anyCase = (units: string) =>
+  units.replace(/[a-z]/g, (c) => `[${c}${c.toUpperCase()}]`);
+
+// 12 Nm, 6.5 bar, 1,500 rpm, 0.2-0.4 mm
+const VALUE_RE = new RegExp(
+  `(?<![\\w.])(\\d+(?:[.,]\\d+)*(?:\\s*[-–]\\s*\\d+(?:[.,]\\d+)*)?)\\s?(${anyCase(WORD_UNITS)}|${LETTER_UNITS})(?![\\w/])`,
+  'g',
+);
+// 6ES7-214, E-1042, PN 4711-08: letters and digits mixed, at least 4 chars
+const PART_RE =
+  /\b(?=[A-Z0-9./-]*\d)(?=[A-Z0-9./-]*[A-Z])[A-Z0-9][A-Z0-9./-]{3,}\b/g;
+// Settings > Machine > Spindle, Service › Calibration (Title Case steps)
+const MENU_RE =
+  /(?<![\w-])([A-Z][\w-]*(?: [A-Z0-9][\w-]*)*(?:\s*(?:>|›|→|->)\s*[A-Z0-9][\w-]*(?: [A-Z0-9][\w-]*)*)+)(?![\w-])/g;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(\d{3})\b/g, '$1$2')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/\s+/g, ' ');
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[\s./-]/g, '');
+}
+
+/** Numbers of a value claim, e.g. "0.2-0.4 mm" → ["0.2", "0.4"]. */
+function numbersOf(value: string): string[] {
+  return normalize(value).match(/\d+(?:\.\d+)?/g) ?? [];
+}
+
+function hasNumber(evidence: string, n: string): boolean {
+  const escaped = n.replace('.', '\\.');
+  return new RegExp(`(?<![\\d.])${escaped}(?![\\d]|\\.\\d)`).test(evidence);
+}
+
+/** Checkable statements of `reply`, citation markers and code left out. */
+export function extractClaims(reply: string): Omit<Claim, 'supported'>[] {
+  const text = reply
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\[\d+(?:\s*,\s*\d+)*\]/g, ' ');
+  const claims = new Map<string, Omit<Claim, 'supported'>>();
+  const add = (kind: ClaimKind, raw: string) => {
+    const value = raw.trim();
+    const key = `${kind}:${value.toLowerCase()}`;
+    if (value && !claims.has(key)) claims.set(key, { kind, text: value });
+  };
+  for (const m of text.matchAll(VALUE_RE)) add('value', m[0]);
+  for (const m of text.matchAll(PART_RE)) {
+    // a value such as "24V" is already checked as a value
+    if (!/^\d+(?:[.,]\d+)?[a-z%°]+$/i.test(m[0])) add('part', m[0]);
+  }
+  for (const m of text.matchAll(MENU_RE)) add('menu', m[1]);
+  return [...claims.values()];
+}
+
+function supported(
+  claim: Omit<Claim, 'supported'>,
+  evidence: string,
+  compacted: string,
+): boolean {
+  switch (claim.kind) {
+    case 'value':
+      return numbersOf(claim.text).every((n) => hasNumber(evidence, n));
+    case 'part':
+      return compacted.includes(compact(claim.text));
+    case 'menu':
+      return claim.text
+        .split(/\s*(?:>|›|→|->)\s*/)
+        .every((step) => evidence.includes(normalize(step.trim())));
+  }
+}
+
+/** Checks every claim of `reply` against `evidence`. */
+export function checkGroundedness(
+  reply: string,
+  evidence: string,
+): Groundedness {
+  const normalized = normalize(evidence);
+  const compacted = compact(evidence);
+  const claims = extractClaims(reply).map((c) => ({
+    ...c,
+    supported: supported(c, normalized, compacted),
+  }));
+  const unsupported = claims.filter((c) => !c.supported);
+  return {
+    score: claims.length
+      ? (claims.length - unsupported.length) / claims.length
+      : 1,
+    checked: claims.length,
+    unsupported,
+    claims,
+  };
+}
+
+/** Marks the first occurrence of each unsupported claim and adds a note. */
+const UNSUPPORTED_NOTE: Record<Language, (list: string) => string> = {
+  en: (list) =>
+    `Not found in the manuals or machine data: ${list}. Verify before use.`,
+  de: (list) =>
+    `Nicht in den Handbüchern oder Maschinendaten gefunden: ${list}. Vor der Verwendung prüfen.`,
+  nl: (list) =>
+    `Niet gevonden in de handleidingen of machinegegevens: ${list}. Controleer dit vóór gebruik.`,
+};
+
+export function annotateUnsupported(
+  reply: string,
+  unsupported: Claim[],
+  language: Language = 'en',
+): string {
+  if (!unsupported.length) return reply;
+  let out = reply;
+  for (const claim of unsupported) {
+    const at = out.indexOf(claim.text);
+    if (at < 0) continue;
+    const end = at + claim.text.length;
+    out = `${out.slice(0, end)} ⚠️${out.slice(end)}`;
+  }
+  const list = unsupported.map((c) => `\`${c.text}\``).join(', ');
+  return `${out}\n\n> ⚠️ ${UNSUPPORTED_NOTE[language](list)}`;
+}
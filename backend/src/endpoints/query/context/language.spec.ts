@@ -0,0 +1,64 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  cannedMessages,
+  conversationLanguage,
+  detectLanguage,
+  languageInstruction,
+} from './language';
+
+describe('language', () => {
+  it('detects English, German and Dutch questions', () => {
+    expect(detectLanguage('What is the max pressure of the pump?')).toBe('en');
+    expect(detectLanguage('Wie hoch ist der maximale Druck?')).toBe('de');
+    expect(detectLanguage('Störung an der Spindel')).toBe('de');
+    expect(detectLanguage('Hoe reset ik de storing?')).toBe('nl');
+    expect(detectLanguage('Wat betekent foutcode E-1042?')).toBe('nl');
+  });
+
+  it('leaves codes and ambiguous turns undecided', () => {
+    expect(detectLanguage('E-1042?')).toBeNull();
+    expect(detectLanguage('P-204 ok')).toBeNull();
+  });
+
+  it('follows the conversation unless a language is fixed', () => {
+    const messages = [
+      { role: 'user', content: 'Welche Fehler zeigt die Presse?' },
+      { role: 'assistant', content: 'The press shows E-1042.' },
+      { role: 'user', content: 'E-1042?' },
+    ];
+    expect(conversationLanguage(messages)).toBe('de');
+    expect(conversationLanguage(messages, 'auto')).toBe('de');
+    expect(conversationLanguage(messages, 'nl')).toBe('nl');
+    expect(conversationLanguage(messages, 'fr')).toBe('de');
+    expect(conversationLanguage([{ role: 'user', content: 'ok' }])).toBe('en');
+  });
+
+  it('words instructions and canned replies per language', () => {
+    expect(languageInstruction('de')).toContain('German');
+    expect(cannedMessages('nl').noAlerts('alarmen', 'Pers 1')).toBe(
+      'Geen alarmen voor Pers 1.',
+    );
+    expect(cannedMessages().alertCount(1)).toBe('1 alert');
+    expect(cannedMessages('de').alertsUnavailable('Presse 1')).toContain(
+      'nicht verfügbar',
+    );
+    expect(cannedMessages('nl').chartUnavailable('druk van Pers 1')).toContain(
+      'niet beschikbaar',
+    );
+  });
+});
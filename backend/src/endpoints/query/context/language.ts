@@ -0,0 +1,226 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Language of the operator's turn. Plants run in English, German and Dutch;
+ * detection scores common function words plus a few spelling cues, so it
+ * works on short questions without a model call. Codes, part numbers and
+ * single words are left undecided and inherit the conversation's language.
+ */
+
+export const LANGUAGES = ['en', 'de', 'nl'] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+/** Session preference: a fixed language, or `auto` to follow each question. */
+export type LanguagePreference = Language | 'auto';
+export const LANGUAGE_PREFERENCES: readonly LanguagePreference[] = [
+  ...LANGUAGES,
+  'auto',
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  de: 'German (Deutsch)',
+  nl: 'Dutch (Nederlands)',
+};
+
+const FUNCTION_WORDS: Record<Language, Set<string>> = {
+  en: new Set(
+    'the a an is are what how why when where which who does do did can could should must of and or to with for from this that it my on not no please show after before'.split(
+      ' ',
+    ),
+  ),
+  de: new Set(
+    'der die das den dem des ein eine einen ist sind war wie warum wann wo welche welcher welches wer kann können soll muss und oder zu mit für von nicht kein keine ich es im am bei auf bitte zeige nach vor wird wurde'.split(
+      ' ',
+    ),
+  ),
+  nl: new Set(
+    'de het een is zijn wat hoe waarom wanneer waar welke wie kan kun moet en of te met voor van niet geen ik mijn deze dit bij op graag toon laat na wordt werd'.split(
+      ' ',
+    ),
+  ),
+};
+
+// letters only German uses, and the Dutch "ij"
+const CUES: Array<[Language, RegExp]> = [
+  ['de', /[äöüß]/g],
+  ['nl', /ij/g],
+];
+
+/**
+ * Most likely language of `text`, or null when nothing tells the languages
+ * apart ("E-1042?", "P-204 ok").
+ */
+export function detectLanguage(text: string): Language | null {
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  const scores = LANGUAGES.map((lang) => {
+    let score = words.filter((w) => FUNCTION_WORDS[lang].has(w)).length;
+    for (const [cueLang, re] of CUES) {
+      if (cueLang === lang) score += (lower.match(re) ?? []).length;
+    }
+    return { lang, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  return best.score > second.score ? best.lang : null;
+}
+
+export function isLanguagePreference(
+  value: unknown,
+): value is LanguagePreference {
+  return (LANGUAGE_PREFERENCES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Language to answer in: a fixed preference wins; otherwise the latest user
+ * message, falling back to earlier ones, then `fallback`. Unknown preferences
+ * count as 'auto'.
+ */
+export function conversationLanguage(
+  messages: Array<{ role: string; content: string | null }>,
+  preference?: unknown,
+  fallback: Language = DEFAULT_LANGUAGE,
+): Language {
+  if (isLanguagePreference(preference) && preference !== 'auto') {
+    return preference;
+  }
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role !== 'user' || !m.content) continue;
+    const detected = detectLanguage(m.content);
+    if (detected) return detected;
+  }
+  return fallback;
+}
+
+/** System-prompt line telling the model which language to answer in. */
+export function languageInstruction(language: Language): string {
+  return (
+    `Answer in ${LANGUAGE_NAMES[language]}, even when the manuals, data or earlier turns are in another language. ` +
+    `Keep parameter names, menu paths, part numbers and error codes exactly as they are written in the source.`
+  );
+}
+
+/** Fixed replies that do not come from the model. */
+export interface CannedMessages {
+  // the phrase the model is told to use when it lacks data
+  notEnoughData: string;
+  noAnswer: string;
+  chartSeries: (metric: string, asset: string) => string;
+  chartNoData: (series: string, from: string, to: string) => string;
+  chartUnavailable: (series: string) => string;
+  noAssetIds: string;
+  unresolvedAssets: (names: string) => string;
+  alertsWord: string;
+  alertsSince: (time: string) => string;
+  machines: (count: number) => string;
+  noAlerts: (what: string, where: string) => string;
+  alertsUnavailable: (where: string) => string;
+  alertsFound: (total: number, what: string, where: string) => string;
+  latestAlerts: (
+    shown: number,
+    total: number,
+    what: string,
+    where: string,
+  ) => string;
+  guidanceHeading: string;
+  sourcesLabel: string;
+  alertCount: (count: number) => string;
+}
+
+const CANNED: Record<Language, CannedMessages> = {
+  en: {
+    notEnoughData: 'Not enough data',
+    noAnswer: 'Not enough data to answer this question.',
+    chartSeries: (metric, asset) => `${metric} of ${asset}`,
+    chartNoData: (series, from, to) =>
+      `No data found for ${series} between ${from} and ${to}. Make sure you have mentioned the right asset ID and metric, and a time range such as "last 24h" or explicit from and to dates.`,
+    chartUnavailable: (series) =>
+      `Data for ${series} is unavailable right now; the time-series database could not be queried.`,
+    noAssetIds: 'No asset IDs found for the selected machines.',
+    unresolvedAssets: (names) => `Could not find an asset ID for: ${names}.`,
+    alertsWord: 'alerts',
+    alertsSince: (time) => `since ${time}`,
+    machines: (count) => `${count} machines`,
+    noAlerts: (what, where) => `No ${what} for ${where}.`,
+    alertsUnavailable: (where) =>
+      `Alerts for ${where} are unavailable right now; the alert service could not be reached.`,
+    alertsFound: (total, what, where) =>
+      `Here are ${total} ${what} for ${where}:`,
+    latestAlerts: (shown, total, what, where) =>
+      `Here are the latest ${shown} of ${total} ${what} for ${where}:`,
+    guidanceHeading: 'Guidance from the manuals',
+    sourcesLabel: 'Sources',
+    alertCount: (count) => `${count} alert${count === 1 ? '' : 's'}`,
+  },
+  de: {
+    notEnoughData: 'Nicht genügend Daten',
+    noAnswer: 'Nicht genügend Daten, um diese Frage zu beantworten.',
+    chartSeries: (metric, asset) => `${metric} von ${asset}`,
+    chartNoData: (series, from, to) =>
+      `Keine Daten für ${series} zwischen ${from} und ${to} gefunden. Bitte prüfen Sie Asset-ID und Messgröße und geben Sie einen Zeitraum an, z. B. "letzte 24h" oder ein Start- und Enddatum.`,
+    chartUnavailable: (series) =>
+      `Daten für ${series} sind derzeit nicht verfügbar; die Zeitreihendatenbank konnte nicht abgefragt werden.`,
+    noAssetIds:
+      'Für die ausgewählten Maschinen wurden keine Asset-IDs gefunden.',
+    unresolvedAssets: (names) => `Keine Asset-ID gefunden für: ${names}.`,
+    alertsWord: 'Alarme',
+    alertsSince: (time) => `seit ${time}`,
+    machines: (count) => `${count} Maschinen`,
+    noAlerts: (what, where) => `Keine ${what} für ${where}.`,
+    alertsUnavailable: (where) =>
+      `Alarme für ${where} sind derzeit nicht verfügbar; der Alarmdienst ist nicht erreichbar.`,
+    alertsFound: (total, what, where) => `${total} ${what} für ${where}:`,
+    latestAlerts: (shown, total, what, where) =>
+      `Die neuesten ${shown} von ${total} ${what} für ${where}:`,
+    guidanceHeading: 'Hinweise aus den Handbüchern',
+    sourcesLabel: 'Quellen',
+    alertCount: (count) => `${count} ${count === 1 ? 'Alarm' : 'Alarme'}`,
+  },
+  nl: {
+    notEnoughData: 'Onvoldoende gegevens',
+    noAnswer: 'Onvoldoende gegevens om deze vraag te beantwoorden.',
+    chartSeries: (metric, asset) => `${metric} van ${asset}`,
+    chartNoData: (series, from, to) =>
+      `Geen gegevens gevonden voor ${series} tussen ${from} en ${to}. Controleer of asset-ID en meetwaarde kloppen en geef een periode op, zoals "afgelopen 24h" of een begin- en einddatum.`,
+    chartUnavailable: (series) =>
+      `Gegevens voor ${series} zijn nu niet beschikbaar; de tijdreeksdatabase kon niet worden bevraagd.`,
+    noAssetIds: "Geen asset-ID's gevonden voor de geselecteerde machines.",
+    unresolvedAssets: (names) => `Geen asset-ID gevonden voor: ${names}.`,
+    alertsWord: 'alarmen',
+    alertsSince: (time) => `sinds ${time}`,
+    machines: (count) => `${count} machines`,
+    noAlerts: (what, where) => `Geen ${what} voor ${where}.`,
+    alertsUnavailable: (where) =>
+      `Alarmen voor ${where} zijn nu niet beschikbaar; de alarmdienst is niet bereikbaar.`,
+    alertsFound: (total, what, where) => `${total} ${what} voor ${where}:`,
+    latestAlerts: (shown, total, what, where) =>
+      `De laatste ${shown} van ${total} ${what} voor ${where}:`,
+    guidanceHeading: 'Advies uit de handleidingen',
+    sourcesLabel: 'Bronnen',
+    alertCount: (count) => `${count} ${count === 1 ? 'alarm' : 'alarmen'}`,
+  },
+};
+
+export function cannedMessages(
+  language: Language = DEFAULT_LANGUAGE,
+): CannedMessages {
+  return CANNED[language];
+}
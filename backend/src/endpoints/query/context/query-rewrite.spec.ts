@@ -0,0 +1,55 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { lastUserText, parseRewrite, rewritePrompt } from './query-rewrite';
+
+describe('query-rewrite', () => {
+  const user = (content: string) => ({ role: 'user', content });
+  const bot = (content: string) => ({ role: 'assistant', content });
+
+  it('skips first questions', () => {
+    expect(
+      rewritePrompt([user('What is the max pressure of the P-100?')], 6),
+    ).toBeNull();
+  });
+
+  it('puts the conversation and the follow-up in the prompt', () => {
+    const prompt = rewritePrompt(
+      [
+        user('Which pump feeds line 2?'),
+        bot('Line 2 is fed by pump P-100.'),
+        user('what about its max pressure?'),
+      ],
+      6,
+      ['Laser Cutter'],
+    );
+    expect(prompt).toHaveLength(2);
+    expect(prompt?.[1].content).toContain('XANA: Line 2 is fed by pump P-100.');
+    expect(prompt?.[1].content).toContain(
+      'Last user message: what about its max pressure?',
+    );
+    expect(prompt?.[1].content).toContain('Selected assets: Laser Cutter');
+  });
+
+  it('cleans the rewrite and falls back on junk', () => {
+    expect(parseRewrite('Query: "P-100 pump maximum pressure"', 'q')).toBe(
+      'P-100 pump maximum pressure',
+    );
+    expect(parseRewrite('', 'q')).toBe('q');
+    expect(parseRewrite('First line\nSecond line', 'q')).toBe('q');
+    expect(lastUserText([user('a'), bot('b'), user(' c ')])).toBe('c');
+  });
+});
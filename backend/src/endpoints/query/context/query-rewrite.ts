@@ -0,0 +1,93 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Rewrites a follow-up ("what about its max pressure?") into a search query
+ * that stands on its own, so retrieval for the tenth question is not
+ * dominated by the first nine.
+ */
+
+type Turn = { role: string; content: string | null };
+
+// longer outputs are the model answering instead of rewriting
+const MAX_QUERY_CHARS = 400;
+
+export function lastUserText(messages: Turn[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role === 'user' && m.content?.trim()) return m.content.trim();
+  }
+  return '';
+}
+
+/**
+ * Prompt for the rewrite, or null when there is nothing to resolve against:
+ * a first question is already standalone.
+ */
+export function rewritePrompt(
+  messages: Turn[],
+  maxTurns: number,
+  assets: string[] = [],
+): { role: 'system' | 'user'; content: string }[] | null {
+  const question = lastUserText(messages);
+  const lastIdx = messages.map((m) => m.content?.trim()).lastIndexOf(question);
+  const earlier = messages
+    .slice(0, lastIdx)
+    .filter((m) => m.role !== 'tool' && m.content?.trim())
+    .slice(-maxTurns);
+  if (!question || !earlier.length) return null;
+
+  const transcript = earlier
+    .map((m) => {
+      const who =
+        m.role === 'user' ? 'User' : m.role === 'system' ? 'Memory' : 'XANA';
+      return `${who}: ${m.content}`;
+    })
+    .join('\n');
+  return [
+    {
+      role: 'system',
+      content:
+        'Rewrite the last user message into one standalone search query for machine manuals. ' +
+        'Replace pronouns and references ("it", "that alarm", "the second one") with the asset, part, parameter or alarm they refer to in the conversation. ' +
+        'Keep IDs, part numbers and units exactly. Keep the language of the user message. ' +
+        'If the message is already standalone, return it unchanged. Output only the query.',
+    },
+    {
+      role: 'user',
+      content:
+        (assets.length ? `Selected assets: ${assets.join(', ')}\n\n` : '') +
+        `Conversation:\n${transcript}\n\nLast user message: ${question}`,
+    },
+  ];
+}
+
+/** The model's rewrite, or `fallback` when it is empty or clearly not a query. */
+export function parseRewrite(
+  text: string | null | undefined,
+  fallback: string,
+): string {
+  const cleaned = (text ?? '')
+    .trim()
+    .replace(/^```\w*\s*|\s*```$/g, '')
+    .replace(/^(standalone\s+)?(search\s+)?query\s*:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
+  if (!cleaned || cleaned.length > MAX_QUERY_CHARS || cleaned.includes('\n')) {
+    return fallback;
+  }
+  return cleaned;
+}
@@ -0,0 +1,85 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  estimateTokens,
+  fitBlocks,
+  MESSAGE_OVERHEAD_TOKENS,
+  messagesTokens,
+  modelProfile,
+  splitHistory,
+} from './token-budget';
+
+describe('token-budget', () => {
+  const profile = { contextTokens: 1000, charsPerToken: 4 };
+  const msg = (content: string) => ({ role: 'user', content });
+
+  it('picks a profile per model and honours overrides', () => {
+    expect(
+      modelProfile('meta-llama/Llama-3.3-70B-Instruct').contextTokens,
+    ).toBe(131072);
+    expect(modelProfile('Qwen2.5-14B-Instruct-fp16-ov').contextTokens).toBe(
+      32768,
+    );
+    expect(modelProfile('unknown-model').contextTokens).toBe(8192);
+    expect(
+      modelProfile('llama3.3:70b-instruct-q3_K_M', { contextTokens: 16384 })
+        .contextTokens,
+    ).toBe(16384);
+  });
+
+  it('estimates tokens from characters', () => {
+    expect(estimateTokens('x'.repeat(10), profile)).toBe(3);
+    expect(estimateTokens('', profile)).toBe(0);
+    expect(messagesTokens([msg('x'.repeat(8))], profile)).toBe(
+      2 + MESSAGE_OVERHEAD_TOKENS,
+    );
+  });
+
+  it('keeps the newest turns that fit and always the question', () => {
+    const turns = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].map(msg);
+    // 14 tokens per turn
+    const { older, recent } = splitHistory(turns, 30, profile);
+    expect(older.map((m) => m.content[0])).toEqual(['a']);
+    expect(recent.map((m) => m.content[0])).toEqual(['b', 'c']);
+
+    const tight = splitHistory(turns, 1, profile);
+    expect(tight.recent).toHaveLength(1);
+    expect(tight.older).toHaveLength(2);
+  });
+
+  it('fits context blocks by rank and reports what was dropped', () => {
+    const blocks = [
+      { source: 'a.pdf', text: 'a'.repeat(40) },
+      { source: 'b.pdf', text: 'b'.repeat(400) },
+      { source: 'c.pdf', text: 'c'.repeat(20) },
+    ];
+    const { kept, dropped, tokens } = fitBlocks(blocks, 20, profile);
+    expect(kept.map((b) => b.source)).toEqual(['a.pdf', 'c.pdf']);
+    expect(dropped).toEqual([{ source: 'b.pdf', tokens: 100 }]);
+    expect(tokens).toBe(15);
+  });
+
+  it('cuts the best block when nothing fits', () => {
+    const { kept, dropped } = fitBlocks(
+      [{ source: 'big.pdf', text: 'x'.repeat(400) }],
+      10,
+      profile,
+    );
+    expect(kept[0].text).toHaveLength(41);
+    expect(dropped).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export interface ModelProfile {
+  /** context window in tokens */
+  contextTokens: number;
+  /** average characters per token for mixed technical text */
+  charsPerToken: number;
+}
+
+// Matched against the model name in order; the first hit wins. Only used
+// for providers that do not report the window they serve.
+const PROFILES: Array<[RegExp, ModelProfile]> = [
+  [/llama-?3\.[1-3]/i, { contextTokens: 131072, charsPerToken: 3.8 }],
+  [/llama-?3/i, { contextTokens: 8192, charsPerToken: 3.8 }],
+  [/qwen2\.5/i, { contextTokens: 32768, charsPerToken: 3.5 }],
+  [/phi-?3.*128k/i, { contextTokens: 131072, charsPerToken: 3.2 }],
+  [/phi-?3/i, { contextTokens: 4096, charsPerToken: 3.2 }],
+  [/mi[sx]tral/i, { contextTokens: 32768, charsPerToken: 3.5 }],
+];
+
+const DEFAULT_PROFILE: ModelProfile = {
+  contextTokens: 8192,
+  charsPerToken: 3.5,
+};
+
+// role markup the chat template adds around every message
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function modelProfile(
+  model?: string | null,
+  override: Partial<ModelProfile> = {},
+): ModelProfile {
+  const known = PROFILES.find(([re]) => re.test(model ?? ''))?.[1];
+  const base = known ?? DEFAULT_PROFILE;
+  return {
+    contextTokens:
+      override.contextTokens && override.contextTokens > 0
+        ? override.contextTokens
+        : base.contextTokens,
+    charsPerToken:
+      override.charsPerToken && override.charsPerToken > 0
+        ? override.charsPerToken
+        : base.charsPerToken,
+  };
+}
+
+/**
+ * Approximate token count from the text length. No tokenizer is involved,
+ * so counts drift most for code-heavy or non-English text; the per-model
+ * `charsPerToken` errs on the low side to keep prompts inside the window.
+ */
+export function estimateTokens(
+  text: string | null | undefined,
+  profile: ModelProfile,
+): number {
+  return text ? Math.ceil(text.length / profile.charsPerToken) : 0;
+}
+
+export function messagesTokens(
+  messages: Array<{ content: string | null }>,
+  profile: ModelProfile,
+): number {
+  return messages.reduce(
+    (sum, m) =>
+      sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(m.content, profile),
+    0,
+  );
+}
+
+export function truncateToTokens(
+  text: string,
+  tokens: number,
+  profile: ModelProfile,
+): string {
+  const maxChars = Math.max(0, Math.floor(tokens * profile.charsPerToken));
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)}…`;
+}
+
+/**
+ * Splits a conversation into the recent turns that fit `budget` verbatim
+ * and the older ones before them. The last message (the question being
+ * asked) is always recent, even when it alone exceeds the budget.
+ */
+export function splitHistory<T extends { content: string | null }>(
+  messages: T[],
+  budget: number,
+  profile: ModelProfile,
+): { older: T[]; recent: T[] } {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const cost =
+      MESSAGE_OVERHEAD_TOKENS +
+      estimateTokens(messages[start - 1].content, profile);
+    if (start < messages.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+export interface ContextBlock {
+  source: string;
+  text: string;
+}
+
+export interface DroppedBlock {
+  source: string;
+  tokens: number;
+}
+
+/**
+ * Keeps retrieved blocks in rank order while they fit `budget`; a block
+ * that does not fit is dropped and smaller ones after it may still get in.
+ * When not even the best block fits, it is cut to the budget instead of
+ * leaving the model without context.
+ */
+export function fitBlocks<T extends ContextBlock>(
+  blocks: T[],
+  budget: number,
+  profile: ModelProfile,
+): { kept: T[]; dropped: DroppedBlock[]; tokens: number } {
+  const kept: T[] = [];
+  const dropped: DroppedBlock[] = [];
+  let used = 0;
+  for (const block of blocks) {
+    const tokens = estimateTokens(block.text, profile);
+    if (used + tokens <= budget) {
+      kept.push(block);
+      used += tokens;
+    } else {
+      dropped.push({ source: block.source, tokens });
+    }
+  }
+
+  if (!kept.length && blocks.length && budget > 0) {
+    const [best] = blocks;
+    dropped.shift();
+    kept.push({ ...best, text: truncateToTokens(best.text, budget, profile) });
+    used = estimateTokens(kept[0].text, profile);
+  }
+  return { kept, dropped, tokens: used };
+}
@@ -15,7 +15,8 @@
 // 
 
 import { Type } from 'class-transformer';
-import { IsArray, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsBoolean, IsIn, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { LANGUAGE_PREFERENCES, type LanguagePreference } from '../context/language';
 
 export class ChatMessageDto {
   @IsString() role!: 'system' | 'user' | 'assistant' | 'tool' | 'function';
@@ -28,10 +29,16 @@ export class AssetDto {
 }
 
 export class QueryDto {
+  // the whole conversation, unless `sessionId` is given
+  @IsOptional()
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => ChatMessageDto)
-  messages!: ChatMessageDto[];
+  messages?: ChatMessageDto[];
+
+  // stored conversation to continue; `message` is the new question
+  @IsOptional() @IsString() sessionId?: string;
+  @IsOptional() @IsString() message?: string;
 
   @IsOptional()
   vectorStoreIds?: string | string[];
@@ -42,5 +49,11 @@ export class QueryDto {
   @Type(() => AssetDto)
   assets?: AssetDto[];
 
-  @IsString() hostProvider!: 'ollama' | 'ionos' | 'opea';
+  @IsOptional() @IsString() hostProvider?: 'ollama' | 'ionos' | 'opea';
+
+  // adds `debug` (e.g. the rewritten search query) to the response
+  @IsOptional() @IsBoolean() debug?: boolean;
+
+  // answer language (en | de | nl); `auto` or unset follows the session, then the question
+  @IsOptional() @IsIn(LANGUAGE_PREFERENCES) language?: LanguagePreference;
 }
@@ -14,20 +14,123 @@
 // limitations under the License. 
 // 
 
-import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { QueryService } from './query.service';
+import { IdentityService } from '../auth/identity.service';
+import { VectorMappingService } from '../vector_mapping/vector-mapping.service';
 import { QueryDto } from './dto/query.dto';
 import * as findAuthDto from './dto/find-auth.dto';
 
 @Controller('query')
 export class QueryController {
-  constructor(private readonly queryService: QueryService) {}
+  constructor(
+    private readonly queryService: QueryService,
+    private readonly identity: IdentityService,
+    private readonly vectorMappings: VectorMappingService,
+  ) {}
 
+  /**
+   * Either `messages` (the whole conversation) or `sessionId` + `message`;
+   * sessions need `Authorization: Bearer <route token>`.
+   */
   @Post()
   @HttpCode(HttpStatus.OK)
-  async handleQuery(@Body() dto: QueryDto) {
+  async handleQuery(
+    @Body() dto: QueryDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    return this.queryService.handleQuery(
+      await this.toQueryParams(dto, authorization),
+    );
+  }
+
+  /**
+   * Same request body as POST /query, answered as Server-Sent Events:
+   * `retrieval`, `token` (repeated), `sources`, then `done` or `error`.
+   */
+  @Post('stream')
+  async streamQuery(
+    @Body() dto: QueryDto,
+    @Res() res: Response,
+    @Headers('authorization') authorization?: string,
+  ) {
+    // resolved before the stream opens so a bad token is a plain 401
+    const params = await this.toQueryParams(dto, authorization);
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      for await (const evt of this.queryService.streamQuery(params)) {
+        if (closed) break;
+        res.write(`event: ${evt.event}\ndata: ${JSON.stringify(evt.data)}\n\n`);
+      }
+    } catch (err) {
+      if (!closed) {
+        const message =
+          err instanceof Error ? err.message : 'Failed to generate response';
+        res.write(`event: error\ndata: ${JSON.stringify({ message })}\n\n`);
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Attributes recorded in PG_TABLE for one asset, with last-seen time and
+   * sample count. Requires `Authorization: Bearer <route token>` and an
+   * `entityId` whose vector mapping names the caller's company.
+   */
+  @Get('metrics')
+  async getMetricCatalog(
+    @Query('entityId') entityId?: string,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    const urn = entityId?.trim();
+    if (!urn) {
+      throw new BadRequestException('entityId is required');
+    }
+    const asset = await this.vectorMappings.findAsset(urn);
+    if (!user.companyId || asset?.companyId !== user.companyId) {
+      throw new ForbiddenException(`${urn} is not one of your assets`);
+    }
+    return this.queryService.getMetricCatalog(urn);
+  }
+
+  private async toQueryParams(dto: QueryDto, authorization?: string) {
     // Ensure vectorStoreIds is always an array of strings
-    const { messages, vectorStoreIds, hostProvider, assets } = dto;
+    const {
+      messages,
+      vectorStoreIds,
+      hostProvider,
+      assets,
+      sessionId,
+      message,
+      debug,
+      language,
+    } = dto;
     const normalizedVectorStoreIds: string[] =
       typeof vectorStoreIds === 'string'
         ? [vectorStoreIds]
@@ -38,12 +141,28 @@ export class QueryController {
     // Extract asset names from AssetDto array
     const assetNames: string[] = assets?.map(asset => asset.asset_name).filter((name): name is string => Boolean(name)) || [];
 
-    return this.queryService.handleQuery({
+    if (!sessionId) {
+      return {
+        hostProvider,
+        messages: messages ?? [],
+        vectorStoreIds: normalizedVectorStoreIds,
+        assets: assetNames,
+        debug: debug === true,
+        languagePreference: language,
+      };
+    }
+
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return {
       hostProvider,
-      messages,
+      messages: message ? [{ role: 'user' as const, content: message }] : [],
       vectorStoreIds: normalizedVectorStoreIds,
       assets: assetNames,
-    });
+      sessionId,
+      user,
+      debug: debug === true,
+      languagePreference: language,
+    };
   }
 
   @Post('get-indexed-db-data')
@@ -22,31 +22,58 @@
 // 
 //*****************************************************************************
 
-import { Injectable, Logger, BadRequestException, InternalServerErrorException, UnauthorizedException, NotFoundException, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, InternalServerErrorException, UnauthorizedException, NotFoundException, HttpException, HttpStatus, ServiceUnavailableException } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
-import { MilvusRagService } from '../ionos-rest/milvus.service';
-import { IonosService } from '../ionos-rest/ionos.service';
-import { OllamaService } from '../ollama-rest/ollama.service';
+import { ChunkLabels, MilvusHit, MilvusRagService } from '../ionos-rest/milvus.service';
 import { OpeaService } from '../opea-rest/opea.service';
+import { LlmProviderRegistry } from '../llm/llm-provider.registry';
+import { ProviderName, ToolCall } from '../llm/llm-provider.interface';
 import { Pool } from 'pg';
 import { createHash } from 'crypto';
 import { CompactEncrypt } from 'jose';
 import axios from 'axios';
 import { FindIndexedDbAuthDto } from './dto/find-auth.dto';
 import * as jwt from 'jsonwebtoken';
+import { formatInTimeZone, parseWindow, resolveTimeRange } from './chart/time-range';
+import { aggregateBuckets, Aggregation, Bucket, chooseBucket, parseAggregation } from './chart/bucketing';
+import { unitLabel } from './chart/units';
+import { attributeName, CatalogEntity, matchMetric, toAttributeId } from './chart/metric-catalog';
+import { computeSeriesStats, SeriesStats } from './chart/series-stats';
+import { ALERT_SEVERITIES, ALERT_STATUSES, AlertaService, AlertFilter } from '../alerta/alerta.service';
+import { VectorMappingService } from '../vector_mapping/vector-mapping.service';
+import { alertRetrievalQuery, describeAlertEvent } from '../alerta/alert-text';
+import { mask, unmask } from '../auth/route-token';
+import { UserIdentity } from '../auth/identity.service';
+import { SessionMemory, SessionsService, SessionTurn } from '../sessions/sessions.service';
+import { SafetyAction, SafetyLogService } from '../safety/safety-log.service';
+import { classifySafety, isBlocking, isSafetyReference, refusalMessage, releasableLength, SAFETY_INSTRUCTION, safetyNotice, SafetyHit, SafetyReference } from '../safety/guardrail';
+import { assetFilter, scopedAssets, withoutQuarantined } from './context/asset-filter';
+import { citeSources, SourceRecord, sourceLabel, toSourceRecord } from './context/citations';
+import { cannedMessages, conversationLanguage, DEFAULT_LANGUAGE, isLanguagePreference, Language, LanguagePreference, languageInstruction } from './context/language';
+import { CONTEXT_GUARD_INSTRUCTION, documentBlock, scanForInjection } from '../safety/injection';
+import { annotateUnsupported, checkGroundedness } from './context/groundedness';
+import { lastUserText, parseRewrite, rewritePrompt } from './context/query-rewrite';
+import { DroppedBlock, estimateTokens, fitBlocks, MESSAGE_OVERHEAD_TOKENS, messagesTokens, ModelProfile, modelProfile, splitHistory, truncateToTokens } from './context/token-budget';
+import { AGENT_INSTRUCTIONS, AGENT_TOOLS, isAgentTool, parseToolArguments, toolResultContent, toStringList } from './agent/tools';
 
 type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
 
 interface ChatMsg {
     role: ChatRole;
     content: string;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+    name?: string;
 }
 
 interface ChartIntent {
     wants_chart: boolean;
     asset_urn?: string | null;
     metric?: string | null;
+    // comparisons ("machine A and B", "temperature and current")
+    asset_urns?: string[] | null;
+    metrics?: string[] | null;
     last?: {
         value: number;
         unit: 'm' | 'h' | 'd' | 'w';
@@ -58,6 +85,12 @@ interface ChartIntent {
 type AlertIntent = {
     wants_alert: boolean;
     asset_urn?: string | null;
+    severity?: AlertFilter['severity'] | null;
+    status?: AlertFilter['status'] | null;
+    environment?: string | null;
+    last?: ChartIntent['last'];
+    from?: string | null;
+    to?: string | null;
 };
 
 type ChartMeta = {
@@ -69,35 +102,157 @@ type ChartMeta = {
 interface TimeSeriesPoint {
     t: string;
     v: number;
+    // per-bucket aggregates; `v` is the one selected by CHART_AGGREGATION
+    avg?: number;
+    min?: number;
+    max?: number;
+    last?: number;
+    count?: number;
 }
 
 interface ChartResult {
     series: TimeSeriesPoint[];
+    stats?: SeriesStats | null;
     meta: {
         assetUrn: string;
         metric?: string;
+        attributeId?: string;
+        unit?: string | null;
         source: string;
+        from?: string;
+        to?: string;
+        // set when the window held more rows or buckets than were read; the newest are kept
+        truncated?: boolean;
+        // set when the query failed; series then holds whatever was read before
+        error?: string;
+        bucket?: Bucket & {
+            aggregation: Aggregation;
+            targetPoints: number;
+            method: 'time_bucket' | 'sql' | 'client';
+        };
     };
 }
 
 type AlertResult = {
-    alerts: Array<{ t: string; v: number }>;
+    alerts: Record<string, any>[];
     meta: AlertaMeta;
 };
 
+// Reply text plus the alerts behind it, as sent to the client
+type AlertAnswer = {
+    reply: string;
+    alerts: Record<string, any>[];
+    alertGroups?: Array<{ assetUrn: string; assetName?: string; total: number; truncated: boolean; alerts: Record<string, any>[] }>;
+    guidance?: AlertGuidance[];
+    total: number;
+    truncated?: boolean;
+    filter: AlertFilter;
+    unavailable?: boolean;
+};
+
 type AlertaMeta = {
     assetUrn: string;
+    assetName?: string;
     source: 'alerta';
+    filter: AlertFilter;
+    total: number;
+    truncated: boolean;
+    // set when Alerta could not be queried; the result then says nothing about the asset
+    error?: string;
 };
 
 type ChartPoint = { t: number | string; v: number };
 
+type Citation = {
+    n: number;
+    source: string;
+    url?: string;
+    section?: string;
+    score?: number;
+};
+
+type AlertGuidance = {
+    event: string;
+    description: string;
+    alertIds: string[];
+    resources: string[];
+    /** markdown with [n] markers pointing into `citations` */
+    summary: string;
+    citations: Citation[];
+};
+
 interface ChartSummary {
     summary: string;
     first10: TimeSeriesPoint[];
     last10: TimeSeriesPoint[];
 }
 
+type QueryParams = {
+    // with a session: only the new turn(s), the history is loaded from it
+    messages: ChatMsg[];
+    vectorStoreIds: string[];
+    hostProvider?: ProviderName;
+    assets: string[];
+    sessionId?: string;
+    user?: UserIdentity;
+    contextReport?: ContextReport;
+    debug?: boolean;
+    // requested answer language; overrides the session's preference
+    languagePreference?: LanguagePreference;
+    // language the answer is given in, resolved from the above and the question
+    language?: Language;
+};
+
+// Outcome of checking a reply's values, part numbers and menu paths against its prompt
+type GroundednessReport = { score: number; checked: number; unsupported: string[]; regenerated: boolean; annotated: boolean };
+
+type SearchQuery = { original: string; query: string; rewritten: boolean; provider?: string };
+
+type ContextBudget = {
+    models: string[];
+    profile: ModelProfile;
+    // answer tokens + system prompt
+    reserved: number;
+    // what is left for history, retrieved context and tool results
+    available: number;
+    historyBudget: number;
+};
+
+// What had to give to fit the prompt into the model's context window
+type ContextReport = {
+    models: string[];
+    contextTokens: number;
+    reservedTokens: number;
+    history: { turns: number; kept: number; summarized: number; summaryTokens: number; tokens: number };
+    context?: { blocks: number; kept: number; dropped: DroppedBlock[]; tokens: number };
+    // tool loop: results cut below AGENT_TOOL_RESULT_CHARS to stay in budget
+    tools?: Array<{ name: string; tokens: number; truncated: boolean }>;
+    promptTokens?: number;
+};
+
+type PreparedQuery =
+    | { kind: 'data'; payload: Record<string, any> }
+    | { kind: 'llm'; hostProvider?: ProviderName; fullHistory: ChatMsg[]; sources: SourceRecord[]; contextReport?: ContextReport; searchQuery: SearchQuery };
+
+export type QueryStreamEvent =
+    | { event: 'tool'; data: { name: string; args: Record<string, any> } }
+    | { event: 'retrieval'; data: { sources: number } }
+    | { event: 'token'; data: { delta: string } }
+    | { event: 'sources'; data: { sources: SourceRecord[] } }
+    | { event: 'done'; data: Record<string, any> }
+    | { event: 'error'; data: { message: string } };
+
+// What the tool calls of one agent run have produced so far
+type AgentState = {
+    charts: ChartResult[];
+    // search_manuals hits; [n] in the answer is sources[n - 1]
+    sources: SourceRecord[];
+    alerts?: AlertAnswer;
+    calls: Array<{ name: string; args: Record<string, any>; ok: boolean; ms: number }>;
+    contextReport?: ContextReport;
+    language: Language;
+};
+
 interface ChunkDoc {
     name: string;
     contentType: string;
@@ -106,20 +261,65 @@ interface ChunkDoc {
     url?: string;
 }
 
+// the part of pg's Pool used here; pg ships without type definitions
+type PgPool = {
+    query<R = Record<string, unknown>>(sql: string, values?: unknown[]): Promise<{ rows: R[]; rowCount: number | null }>;
+};
+
 @Injectable()
 export class QueryService {
     private readonly log = new Logger(QueryService.name);
-    private pgPool?: Pool;
+    private pgPool?: PgPool;
     private readonly SECRET_KEY = process.env.SECRET_KEY;
     private readonly MASK_SECRET = process.env.MASK_SECRET;
     private readonly registryUrl = process.env.REGISTRY_URL;
+    // Naive datetimes from the user/LLM are read in this zone; relative windows use server time
+    private readonly chartTimeZone = process.env.CHART_TIMEZONE || 'UTC';
+    private readonly chartDefaultWindow = parseWindow(process.env.CHART_DEFAULT_RANGE ?? '24h') ?? { value: 24, unit: 'h' as const };
+    private readonly chartTargetPoints = parseInt(process.env.CHART_TARGET_POINTS ?? '200', 10);
+    private readonly chartAggregation = parseAggregation(process.env.CHART_AGGREGATION);
+    // upper bound for asset × metric combinations in one chart
+    private readonly chartMaxSeries = parseInt(process.env.CHART_MAX_SERIES ?? '6', 10);
+    private timescaleAvailable?: boolean;
+    // PostgREST wins when configured unless TIMESERIES_SOURCE says otherwise
+    private readonly timeseriesSource: ChartMeta['source'] =
+        process.env.TIMESERIES_SOURCE === 'postgres' || !process.env.POSTGREST_URL ? 'postgres' : 'postgrest';
+    private readonly postgrestPageSize = parseInt(process.env.POSTGREST_PAGE_SIZE ?? '1000', 10);
+    private readonly postgrestMaxRows = parseInt(process.env.POSTGREST_MAX_ROWS ?? '50000', 10);
+    private readonly anomalyZ = parseFloat(process.env.CHART_ANOMALY_Z ?? '3');
+    private readonly anomalyWindow = parseInt(process.env.CHART_ANOMALY_WINDOW ?? '10', 10);
+    private readonly catalogTtlMs = parseInt(process.env.METRIC_CATALOG_TTL_MS ?? '300000', 10);
+    private readonly catalogLimit = parseInt(process.env.METRIC_CATALOG_LIMIT ?? '500', 10);
+    private readonly catalogCache = new Map<string, { at: number; entities: CatalogEntity[] }>();
+    // AGENT_TOOLS=false restores the intent-detector pipeline
+    private readonly agentEnabled = process.env.AGENT_TOOLS !== 'false';
+    private readonly agentMaxSteps = parseInt(process.env.AGENT_MAX_STEPS ?? '4', 10);
+    // room for tool calls in a planning step; text beyond that is not used
+    private readonly agentPlanMaxTokens = parseInt(process.env.AGENT_PLAN_MAX_TOKENS ?? '400', 10);
+    private readonly agentToolResultChars = parseInt(process.env.AGENT_TOOL_RESULT_CHARS ?? '6000', 10);
+    // turns of a stored session sent along with a new question
+    private readonly sessionHistoryTurns = parseInt(process.env.SESSION_HISTORY_TURNS ?? '20', 10);
+    private readonly answerMaxTokens = parseInt(process.env.LLM_MAX_TOKENS ?? '1500', 10);
+    // overrides the context window looked up from the model name
+    private readonly contextTokensOverride = parseInt(process.env.LLM_CONTEXT_TOKENS ?? '0', 10);
+    // share of the free window that verbatim history may use
+    private readonly contextHistoryShare = parseFloat(process.env.CONTEXT_HISTORY_SHARE ?? '0.3');
+    private readonly contextSummaryTokens = parseInt(process.env.CONTEXT_SUMMARY_TOKENS ?? '400', 10);
+    // regenerate | annotate | off
+    private readonly groundednessMode = (process.env.GROUNDEDNESS_CHECK ?? 'regenerate').toLowerCase();
+    private readonly queryRewrite = process.env.QUERY_REWRITE !== 'false';
+    // earlier turns the rewrite may look at
+    private readonly queryRewriteTurns = parseInt(process.env.QUERY_REWRITE_TURNS ?? '6', 10);
 
     constructor(
         private readonly http: HttpService,
-        private readonly ionosService: IonosService,
-        private readonly ollamaService: OllamaService,
+        private readonly providers: LlmProviderRegistry,
         private readonly opeaService: OpeaService,
         private readonly milvusService: MilvusRagService,
+        private readonly alerta: AlertaService,
+        private readonly vectorMappings: VectorMappingService,
+        private readonly sessions: SessionsService,
+        private readonly safety: SafetyLogService,
     ) {
         const hasPg = !!process.env.PGHOST;
         if (hasPg) {
@@ -133,8 +333,64 @@ export class QueryService {
                     process.env.PGSSL === "true"
                         ? { rejectUnauthorized: false } // ignores self-signed cert
                         : false,
+            }) as PgPool;
+        }
+        this.log.log(`[CHART] Time series source: ${this.timeseriesSource}`);
+    }
+
+    private hasTimeseries(): boolean {
+        return this.timeseriesSource === 'postgrest' ? !!process.env.POSTGREST_URL : !!this.pgPool;
+    }
+
+    /** Bearer token for PostgREST: a fixed POSTGREST_JWT or one signed for POSTGREST_ROLE. */
+    private postgrestToken(): string | undefined {
+        if (process.env.POSTGREST_JWT) return process.env.POSTGREST_JWT;
+        if (process.env.POSTGREST_JWT_SECRET) {
+            // jsonwebtoken ships without type definitions
+            const { sign } = jwt as { sign: (payload: object, secret: string, options: { expiresIn: string }) => string };
+            return sign({ role: process.env.POSTGREST_ROLE || 'web_anon' }, process.env.POSTGREST_JWT_SECRET, {
+                expiresIn: '5m',
             });
         }
+        return undefined;
+    }
+
+    /** GET on a PostgREST table; `range` is the inclusive row window to ask for. */
+    private async postgrestGet<T = Record<string, any>>(
+        table: string,
+        params: URLSearchParams,
+        range?: { from: number; to: number },
+    ): Promise<T[]> {
+        const token = this.postgrestToken();
+        const res = await firstValueFrom(
+            this.http.get<T[]>(`${process.env.POSTGREST_URL!.replace(/\/+$/, '')}/${table}?${params}`, {
+                headers: {
+                    Accept: 'application/json',
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                    ...(range ? { 'Range-Unit': 'items', Range: `${range.from}-${range.to}` } : {}),
+                },
+            }),
+        );
+        return res.data ?? [];
+    }
+
+    /** Chart series from whichever time-series source is configured, with statistics. */
+    async fetchSeries(
+        assetUrn: string,
+        metric: string | undefined,
+        from: string,
+        to: string,
+        aggregation: Aggregation = this.chartAggregation,
+    ): Promise<ChartResult> {
+        const chart = this.timeseriesSource === 'postgrest'
+            ? await this.fetchSeriesFromPostgrest(assetUrn, metric, from, to, aggregation)
+            : await this.fetchSeriesFromPostgres(assetUrn, metric, from, to, aggregation);
+        const stats = computeSeriesStats(chart.series, {
+            intervalSeconds: chart.meta.bucket?.seconds,
+            zThreshold: this.anomalyZ,
+            rollingWindow: this.anomalyWindow,
+        });
+        return { ...chart, stats };
     }
 
     private flattenChatHistoryToString(messages: ChatMsg[]): string {
@@ -144,38 +400,97 @@ export class QueryService {
             .join('\n');
     }
 
+    private async hasTimescale(): Promise<boolean> {
+        if (this.timescaleAvailable !== undefined) return this.timescaleAvailable;
+        try {
+            const res = await this.pgPool!.query(`SELECT 1 FROM pg_extension WHERE extname = 'timescaledb'`);
+            this.timescaleAvailable = (res.rowCount ?? 0) > 0;
+        } catch {
+            this.timescaleAvailable = false;
+        }
+        this.log.log(`[CHART] TimescaleDB ${this.timescaleAvailable ? 'detected, using time_bucket' : 'not available, using plain SQL buckets'}`);
+        return this.timescaleAvailable;
+    }
+
+    /**
+     * Returns the series aggregated into time buckets sized so the window
+     * yields about CHART_TARGET_POINTS points, oldest first. Buckets are read
+     * newest first so a capped result drops the oldest ones.
+     */
     async fetchSeriesFromPostgres(
         assetUrn: string,
         metric: string | undefined,
         from: string,
         to: string,
+        aggregation: Aggregation = this.chartAggregation,
     ): Promise<ChartResult> {
         if (!this.pgPool) {
             throw new Error('PostgreSQL not configured');
         }
 
         const table = process.env.PG_TABLE ?? 'entityhistory';
+        const bucket = chooseBucket(from, to, this.chartTargetPoints);
+        const timescale = await this.hasTimescale();
+
+        // values are stored as text; non-numeric ones are skipped
+        const bucketExpr = timescale
+            ? `time_bucket(make_interval(secs => $5), "observedAt")`
+            : `to_timestamp(floor(extract(epoch FROM "observedAt") / $5) * $5)`;
+        const lastExpr = timescale
+            ? `last(v, "observedAt")`
+            : `(array_agg(v ORDER BY "observedAt" DESC))[1]`;
         const sql = `
-            SELECT *
-            FROM ${table}
-            WHERE "entityId" = $1
-            AND "attributeId" = $2
-            AND "observedAt" >= $3
-            AND "observedAt" <  $4
-            ORDER BY "observedAt" DESC
-            LIMIT 100;
+            SELECT ${bucketExpr} AS bucket,
+                   avg(v) AS avg, min(v) AS min, max(v) AS max,
+                   ${lastExpr} AS last, count(*) AS count
+            FROM (
+                SELECT "observedAt",
+                       CASE WHEN "value" ~ '^\\s*[-+]?[0-9]*\\.?[0-9]+([eE][-+]?[0-9]+)?\\s*$'
+                            THEN "value"::double precision END AS v
+                FROM ${table}
+                WHERE "entityId" = $1
+                AND "attributeId" = $2
+                AND "observedAt" >= $3
+                AND "observedAt" <  $4
+            ) raw
+            WHERE v IS NOT NULL
+            GROUP BY bucket
+            ORDER BY bucket DESC
+            LIMIT $6;
         `;
 
+        const attributeId = toAttributeId(metric ?? '');
+        // room for every bucket the window can touch, also past the largest step
+        const buckets = Math.ceil((Date.parse(to) - Date.parse(from)) / 1000 / bucket.seconds) + 1;
+        const limit = Number.isFinite(buckets) ? Math.max(buckets, this.chartTargetPoints * 2) : this.chartTargetPoints * 2;
         let series: TimeSeriesPoint[] = [];
+        let truncated = false;
+        let failure: string | undefined;
 
         try {
-            const res = await this.pgPool.query(sql, [assetUrn, "https://industry-fusion.org/base/v0.1/" + metric, from, to]);
-            series = res.rows.map(r => ({
-                t: r.observedAt,
-                v: parseFloat(r.value) || 0,
-            }));
+            const res = await this.pgPool.query<{ bucket: string | Date; avg: unknown; min: unknown; max: unknown; last: unknown; count: unknown }>(sql, [
+                assetUrn,
+                attributeId,
+                from,
+                to,
+                bucket.seconds,
+                limit,
+            ]);
+            truncated = res.rows.length >= limit;
+            series = res.rows.reverse().map(r => {
+                const point = {
+                    t: new Date(r.bucket).toISOString(),
+                    avg: Number(r.avg),
+                    min: Number(r.min),
+                    max: Number(r.max),
+                    last: Number(r.last),
+                    count: Number(r.count),
+                };
+                return { ...point, v: point[aggregation] };
+            });
         } catch (error) {
             this.log.error('PostgreSQL query failed:', error);
+            failure = error instanceof Error ? error.message : String(error);
         }
 
         return {
@@ -183,38 +498,233 @@ export class QueryService {
             meta: {
                 assetUrn,
                 metric,
-                source: 'postgres'
+                attributeId,
+                unit: series.length ? await this.lookupUnit(table, assetUrn, attributeId) : null,
+                source: 'postgres',
+                from,
+                to,
+                ...(truncated ? { truncated } : {}),
+                ...(failure ? { error: failure } : {}),
+                bucket: {
+                    ...bucket,
+                    aggregation,
+                    targetPoints: this.chartTargetPoints,
+                    method: timescale ? 'time_bucket' : 'sql',
+                },
             },
         };
     }
 
+    /**
+     * Same result as fetchSeriesFromPostgres, read through PostgREST. Rows are
+     * paged newest first with Range headers up to POSTGREST_MAX_ROWS and
+     * bucketed here, so a capped window loses its oldest rows.
+     */
+    async fetchSeriesFromPostgrest(
+        assetUrn: string,
+        metric: string | undefined,
+        from: string,
+        to: string,
+        aggregation: Aggregation = this.chartAggregation,
+    ): Promise<ChartResult> {
+        if (!process.env.POSTGREST_URL) {
+            throw new Error('PostgREST not configured');
+        }
 
-    async fetchAlertData(
-        assetUrn: string
-    ): Promise<AlertResult> {
-        let alerts = [];
-
+        const table = process.env.PG_TABLE ?? 'entityhistory';
+        const bucket = chooseBucket(from, to, this.chartTargetPoints);
+        const attributeId = toAttributeId(metric ?? '');
+        const params = new URLSearchParams([
+            ['select', 'observedAt,value'],
+            ['entityId', `eq.${assetUrn}`],
+            ['attributeId', `eq.${attributeId}`],
+            ['observedAt', `gte.${from}`],
+            ['observedAt', `lt.${to}`],
+            ['order', 'observedAt.desc'],
+        ]);
+
+        const samples: Array<{ t: string; v: number }> = [];
+        let truncated = false;
+        let failure: string | undefined;
         try {
-            const resAlerts = await axios.get(process.env.ALERTA_API_URL + '?resource=' + assetUrn, {
-                headers: {
-                    'Authorization': `Key ${process.env.ALERTA_API_KEY}`,
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
+            for (let offset = 0; offset < this.postgrestMaxRows; offset += this.postgrestPageSize) {
+                const rows = await this.postgrestGet<{ observedAt: string; value: unknown }>(table, params, {
+                    from: offset,
+                    to: Math.min(offset + this.postgrestPageSize, this.postgrestMaxRows) - 1,
+                });
+                for (const r of rows) {
+                    // values are stored as text; non-numeric ones are skipped
+                    const v = typeof r.value === 'number' ? r.value
+                        : typeof r.value === 'string' && r.value.trim() !== '' ? Number(r.value) : NaN;
+                    samples.push({ t: r.observedAt, v });
                 }
-            });
+                if (rows.length < this.postgrestPageSize) break;
+            }
+            if (samples.length >= this.postgrestMaxRows) {
+                truncated = true;
+                this.log.warn(`[CHART] PostgREST returned ${this.postgrestMaxRows}+ rows for ${assetUrn}, series is truncated`);
+            }
+        } catch (error) {
+            this.log.error('PostgREST query failed:', error);
+            failure = error instanceof Error ? error.message : String(error);
+        }
+
+        // aggregateBuckets expects samples oldest first
+        const series: TimeSeriesPoint[] = aggregateBuckets(samples.reverse(), bucket.seconds).map(point => ({
+            ...point,
+            v: point[aggregation],
+        }));
+
+        return {
+            series,
+            meta: {
+                assetUrn,
+                metric,
+                attributeId,
+                unit: series.length ? await this.lookupUnit(table, assetUrn, attributeId) : null,
+                source: 'postgrest',
+                from,
+                to,
+                ...(truncated ? { truncated } : {}),
+                ...(failure ? { error: failure } : {}),
+                bucket: {
+                    ...bucket,
+                    aggregation,
+                    targetPoints: this.chartTargetPoints,
+                    method: 'client',
+                },
+            },
+        };
+    }
 
-            alerts = resAlerts.data.alerts || [];
+    /**
+     * Attributes recorded for one entity in PG_TABLE with last-seen time and
+     * sample count, at most METRIC_CATALOG_LIMIT of them. Cached for
+     * METRIC_CATALOG_TTL_MS per entity. Through PostgREST this needs
+     * aggregates enabled (db-aggregates-enabled).
+     */
+    async getMetricCatalog(entityId: string): Promise<CatalogEntity[]> {
+        if (!this.hasTimeseries()) {
+            throw new ServiceUnavailableException('No time series source configured');
+        }
+        const key = entityId;
+        const cached = this.catalogCache.get(key);
+        if (cached && Date.now() - cached.at < this.catalogTtlMs) {
+            return cached.entities;
+        }
 
+        const table = process.env.PG_TABLE ?? 'entityhistory';
+        let rows: Array<{ entityId: string; attributeId: string; last_seen: string; samples: number | string }>;
+        if (this.timeseriesSource === 'postgrest') {
+            const params = new URLSearchParams([
+                ['select', 'entityId,attributeId,last_seen:observedAt.max(),samples:count()'],
+                ['entityId', `eq.${entityId}`],
+                ['order', 'attributeId'],
+                ['limit', String(this.catalogLimit)],
+            ]);
+            rows = await this.postgrestGet(table, params);
+        } else {
+            const res = await this.pgPool!.query<(typeof rows)[number]>(
+                `SELECT "entityId", "attributeId", max("observedAt") AS last_seen, count(*) AS samples
+                 FROM ${table}
+                 WHERE "entityId" = $1
+                 GROUP BY "entityId", "attributeId"
+                 ORDER BY "attributeId"
+                 LIMIT $2`,
+                [entityId, this.catalogLimit],
+            );
+            rows = res.rows;
+        }
 
+        const byEntity = new Map<string, CatalogEntity>();
+        for (const r of rows) {
+            const entity: CatalogEntity = byEntity.get(r.entityId) ?? { entityId: r.entityId, attributes: [] };
+            entity.attributes.push({
+                attributeId: r.attributeId,
+                name: attributeName(r.attributeId),
+                lastSeen: new Date(r.last_seen).toISOString(),
+                samples: Number(r.samples),
+            });
+            byEntity.set(r.entityId, entity);
+        }
+        const entities = [...byEntity.values()];
+        this.catalogCache.set(key, { at: Date.now(), entities });
+        return entities;
+    }
+
+    /**
+     * Maps the metric wording from the chart intent onto an attribute the
+     * asset actually records. Falls back to the wording itself when the
+     * catalog is unavailable or has no close match.
+     */
+    private async resolveMetric(assetUrn: string, metric?: string): Promise<string | undefined> {
+        if (!metric) return metric;
+        try {
+            const [entity] = await this.getMetricCatalog(assetUrn);
+            const match = entity ? matchMetric(metric, entity.attributes) : null;
+            if (match) {
+                this.log.log(`[CHART] Metric "${metric}" → ${match.attribute.name} (score ${match.score.toFixed(2)})`);
+                return match.attribute.attributeId;
+            }
+            this.log.warn(`[CHART] No catalog match for "${metric}" on ${assetUrn}`);
         } catch (error) {
-            this.log.error('Error fetching alerts:', error);
+            this.log.warn(`[CHART] Metric catalog unavailable: ${error}`);
+        }
+        return metric;
+    }
+
+    /** Latest "unitCode" recorded for the attribute, if the table carries one. */
+    private async lookupUnit(table: string, assetUrn: string, attributeId: string): Promise<string | null> {
+        try {
+            if (this.timeseriesSource === 'postgrest') {
+                const [row] = await this.postgrestGet<{ unitCode: string }>(table, new URLSearchParams([
+                    ['select', 'unitCode'],
+                    ['entityId', `eq.${assetUrn}`],
+                    ['attributeId', `eq.${attributeId}`],
+                    ['unitCode', 'not.is.null'],
+                    ['order', 'observedAt.desc'],
+                    ['limit', '1'],
+                ]));
+                return unitLabel(row?.unitCode);
+            }
+            const res = await this.pgPool!.query<{ unitCode: string }>(
+                `SELECT "unitCode" FROM ${table}
+                 WHERE "entityId" = $1 AND "attributeId" = $2 AND "unitCode" IS NOT NULL
+                 ORDER BY "observedAt" DESC
+                 LIMIT 1`,
+                [assetUrn, attributeId],
+            );
+            return unitLabel(res.rows[0]?.unitCode);
+        } catch (error) {
+            this.log.debug(`[CHART] No unit for ${attributeId}: ${error}`);
+            return null;
+        }
+    }
+
+    async fetchAlertData(
+        assetUrn: string,
+        filter: Omit<AlertFilter, 'resource'> = {},
+    ): Promise<AlertResult> {
+        const query: AlertFilter = { ...filter, resource: assetUrn };
+        let page = { alerts: [] as Record<string, any>[], total: 0, truncated: false };
+        let error: string | undefined;
+
+        try {
+            page = await this.alerta.listAlerts(query);
+        } catch (e) {
+            this.log.error('Error fetching alerts:', e);
+            error = e instanceof Error ? e.message : String(e);
         }
 
         return {
-            alerts,
+            alerts: page.alerts,
             meta: {
                 assetUrn,
-                source: 'alerta'
+                source: 'alerta',
+                filter: query,
+                total: page.total,
+                truncated: page.truncated,
+                ...(error ? { error } : {}),
             }
         };
     }
@@ -226,7 +736,7 @@ export class QueryService {
      */
 
 
-    async detectChartIntentWithLLM(lastUserText: string): Promise<ChartIntent> {
+    async detectChartIntentWithLLM(lastUserText: string, hostProvider?: ProviderName): Promise<ChartIntent> {
         const schema = {
             name: 'chart_intent',
             schema: {
@@ -236,6 +746,8 @@ export class QueryService {
                     wants_chart: { type: 'boolean' },
                     asset_urn: { type: ['string', 'null'] },
                     metric: { type: ['string', 'null'] },
+                    asset_urns: { type: ['array', 'null'], items: { type: 'string' } },
+                    metrics: { type: ['array', 'null'], items: { type: 'string' } },
                     last: {
                         type: ['object', 'null'],
                         additionalProperties: false,
@@ -254,50 +766,26 @@ export class QueryService {
         };
 
         const prompt =
-            `You extract data chart intent from a single user message.\n` +
+            `You extract data chart intent from a single user message, which may be in English, German or Dutch ("Diagramm", "grafiek", "letzte 24 Stunden", "afgelopen week"); always return metric names in English.\n` +
             `- If the user asks for a chart/plot/graph/trend or with an id, ignore alerts or notification queries, set wants_chart=true.\n` +
             `- Extract the asset URN exactly if present (e.g., "urn:iff:asset:123"). if else, send null.\n` +
             `- If a range like "last 24h/7d/30m" is present, fill last {value,unit}.\n` +
             `- Be strict in decision, if in doubt assume that there is no intent.\n` +
             `- If explicit dates exist, set from/to as ISO. if not present, send null for those. The format must match 2025-09-01T21:58:35.808 \n` +
+            `- Current local time is ${formatInTimeZone(new Date(), this.chartTimeZone)} (${this.chartTimeZone}); resolve words like "today", "yesterday" or "since 8:00" into from/to relative to it.\n` +
             `- metric is optional but fetch it. if two words present use like ab_ba (e.g., temperature, power, load, rpm, pressure, current, voltage, speed, energy, consumption).\n` +
+            `- If several assets are compared or several metrics are plotted together, list every URN in asset_urns and every metric in metrics (same format as metric); asset_urn and metric hold the first of each.\n` +
             `Return pure JSON object in this format ${JSON.stringify(schema)}.\n\n` +
             `User: ${lastUserText}`;
 
-        // FIXED: Use LLM provider based on environment configuration
-        const llmProvider = process.env.LLM_PROVIDER || 'ionos'; // add directly from UI
-        this.log.log(`[CHART_INTENT] Using LLM provider: ${llmProvider}`);
-
-        let r;
-        if (llmProvider === 'ollama') {
-            this.log.log('[CHART_INTENT] Calling Ollama for chart intent detection');
-            r = await this.ollamaService.chatCompletion({
-                messages: [
-                    { role: 'user', content: prompt }
-                ],
-                temperature: 0.1,
-                maxTokens: 250
-            });
-        } else if (llmProvider === 'opea') {
-            this.log.log('[CHART_INTENT] Calling OPEA-OVMS for chart intent detection');
-            r = await this.opeaService.chatCompletion({
-                messages: [
-                    { role: 'user', content: prompt }
-                ],
-                temperature: 0.1,
-                maxTokens: 250
-            });
-            // this.log.log('[CHART_INTENT] OPEA raw response:', JSON.stringify(r, null, 2));
-        } else {
-            this.log.log('[CHART_INTENT] Calling IONOS for chart intent detection');
-            r = await this.ionosService.chatCompletion({
-                messages: [
-                    { role: 'user', content: prompt }
-                ],
-                temperature: 0.1,
-                maxTokens: 250
-            });
-        }
+        const { completion: r, provider } = await this.providers.chatWithFailover({
+            messages: [
+                { role: 'user', content: prompt }
+            ],
+            temperature: 0.1,
+            maxTokens: 250
+        }, hostProvider);
+        this.log.log(`[CHART_INTENT] Answered by LLM provider: ${provider}`);
 
         this.log.debug('Chart intent response:', r);
 
@@ -328,7 +816,7 @@ export class QueryService {
         }
     }
 
-    async detectAlertIntentWithLLM(lastUserText: string): Promise<AlertIntent> {
+    async detectAlertIntentWithLLM(lastUserText: string, hostProvider?: ProviderName): Promise<AlertIntent> {
         const schema = {
             name: 'chart_intent',
             schema: {
@@ -337,6 +825,20 @@ export class QueryService {
                 properties: {
                     wants_alert: { type: 'boolean' },
                     asset_urn: { type: ['string', 'null'] },
+                    severity: { type: ['array', 'null'], items: { type: 'string', enum: ALERT_SEVERITIES } },
+                    status: { type: ['array', 'null'], items: { type: 'string', enum: ALERT_STATUSES } },
+                    environment: { type: ['string', 'null'] },
+                    last: {
+                        type: ['object', 'null'],
+                        additionalProperties: false,
+                        properties: {
+                            value: { type: 'integer' },
+                            unit: { type: 'string', enum: ['m', 'h', 'd', 'w'] },
+                        },
+                        required: ['value', 'unit'],
+                    },
+                    from: { type: ['string', 'null'], description: 'ISO datetime' },
+                    to: { type: ['string', 'null'], description: 'ISO datetime' },
                 },
                 required: ['wants_alert'],
             },
@@ -344,20 +846,26 @@ export class QueryService {
         };
 
         const prompt =
-            `You extract data alert intent from a single user message.\n` +
+            `You extract data alert intent from a single user message, which may be in English, German or Dutch ("Alarme", "Meldungen", "alarmen", "storingen").\n` +
             `- If the user asks for an alert or alerts or notifications and you know better, set wants_alert=true.\n` +
-            `- Extract the asset URN exactly if present (e.g., "urn:iff:asset:123").\n` +
+            `- Extract the asset URN exactly if present (e.g., "urn:iff:asset:123"); if none is given, send null (the user's selected machines are used).\n` +
+            `- severity: only if the user restricts it ("only critical" → ["critical"], "major and above" → ["critical","major"]), else null.\n` +
+            `- status: only if asked ("open", "acknowledged" → "ack", "closed", "shelved"), else null.\n` +
+            `- environment: only if named (e.g., "Production", "Development"), else null.\n` +
+            `- If a range like "last 24h/7d/30m" is present, fill last {value,unit}; for explicit dates set from/to as ISO like 2025-09-01T21:58:35.808, else null.\n` +
+            `- Current local time is ${formatInTimeZone(new Date(), this.chartTimeZone)} (${this.chartTimeZone}); resolve words like "today" or "since this morning" into from/to relative to it.\n` +
             `- Be strict in decision, if in doubt assume that there is no intent.\n` +
-            `Return pure JSON object in this format ${schema}.\n\n` +
+            `Return pure JSON object in this format ${JSON.stringify(schema)}.\n\n` +
             `User: ${lastUserText}`;
 
-        const r = await this.ionosService.chatCompletion({
+        const { completion: r, provider } = await this.providers.chatWithFailover({
             messages: [
                 { role: 'user', content: prompt }
             ],
             temperature: 0.1,
             maxTokens: 250
-        });
+        }, hostProvider);
+        this.log.log(`[ALERT_INTENT] Answered by LLM provider: ${provider}`);
 
         this.log.debug('Alert intent response:', r);
 
@@ -399,263 +907,673 @@ export class QueryService {
         }
     }
 
-    async maybeGetChartData(messages: ChatMsg[]): Promise<ChartResult | null> {
+    /**
+     * Returns one series per asset × metric named in the latest user message,
+     * all over the same time window, or null when no chart was asked for.
+     */
+    async maybeGetChartData(messages: ChatMsg[], hostProvider?: ProviderName): Promise<ChartResult[] | null> {
         const lastUser = [...messages].reverse().find(m => m.role === 'user');
         if (!lastUser) return null;
 
-        const nlu = await this.detectChartIntentWithLLM(lastUser.content);
-        if (!nlu.wants_chart || !nlu.asset_urn) return null;
+        const nlu = await this.detectChartIntentWithLLM(lastUser.content, hostProvider);
+        if (!nlu.wants_chart) return null;
+        return this.chartsForIntent(nlu);
+    }
 
-        let from = "";
-        let to = "";
-        if (nlu.from) from = nlu.from;
-        if (nlu.to) to = nlu.to;
+    /** Fetches the asset × metric series of a chart intent over one shared window. */
+    private async chartsForIntent(nlu: Omit<ChartIntent, 'wants_chart'>): Promise<ChartResult[] | null> {
+        const uniq = (xs: Array<string | null | undefined>) =>
+            [...new Set(xs.filter((x): x is string => typeof x === 'string' && x.trim() !== '').map(x => x.trim()))];
+        const assetUrns = uniq([nlu.asset_urn, ...(nlu.asset_urns ?? [])]);
+        const metrics = uniq([nlu.metric, ...(nlu.metrics ?? [])]);
+        if (assetUrns.length === 0) return null;
+
+        // explicit dates, "last 6h", or CHART_DEFAULT_RANGE when nothing was said
+        const { from, to, source } = resolveTimeRange(nlu, {
+            timeZone: this.chartTimeZone,
+            defaultWindow: this.chartDefaultWindow,
+        });
+        this.log.log(`[CHART] Time range (${source}): ${from} → ${to}`);
 
-        const metric = nlu.metric ?? undefined;
+        const wanted: Array<string | undefined> = metrics.length ? metrics : [undefined];
+        const pairs = assetUrns.flatMap(urn => wanted.map(metric => ({ urn, metric })));
+        if (pairs.length > this.chartMaxSeries) {
+            this.log.warn(`[CHART] ${pairs.length} series requested, plotting the first ${this.chartMaxSeries}`);
+        }
 
-        if (
-            this.pgPool &&
-            typeof nlu.asset_urn === 'string' &&
-            from &&
-            to
-        ) {
-            return await this.fetchSeriesFromPostgres(nlu.asset_urn, metric, from, to);
+        if (this.hasTimeseries()) {
+            return await Promise.all(
+                pairs.slice(0, this.chartMaxSeries).map(async ({ urn, metric }) => {
+                    const attributeId = await this.resolveMetric(urn, metric);
+                    const chart = await this.fetchSeries(urn, attributeId, from, to);
+                    return { ...chart, meta: { ...chart.meta, metric: attributeId ? attributeName(attributeId) : metric } };
+                }),
+            );
         }
         return null;
     }
 
-    async maybeGetAlertData(messages: ChatMsg[]): Promise<AlertResult | null> {
+    /**
+     * Alerts for the URN named in the latest user message or, when none is
+     * named, for every selected asset. One result per asset.
+     */
+    async maybeGetAlertData(messages: ChatMsg[], hostProvider?: ProviderName, assetNames: string[] = []): Promise<{ results: AlertResult[]; unresolved: string[] } | null> {
         const lastUser = [...messages].reverse().find(m => m.role === 'user');
         if (!lastUser) return null;
 
         // 1) LLM NLU
-        const nlu = await this.detectAlertIntentWithLLM(lastUser.content);
-        if (!nlu.wants_alert || !nlu.asset_urn) return null;
+        const nlu = await this.detectAlertIntentWithLLM(lastUser.content, hostProvider);
+        if (!nlu.wants_alert) return null;
+        return this.alertsForIntent(nlu, assetNames);
+    }
 
-        if (
-            typeof nlu.asset_urn === 'string'
-        ) {
-            return this.fetchAlertData(
-                nlu.asset_urn,
-            );
+    /** Alerts matching an alert intent for its URN, else for the named assets. */
+    private async alertsForIntent(nlu: Omit<AlertIntent, 'wants_alert'>, assetNames: string[]): Promise<{ results: AlertResult[]; unresolved: string[] } | null> {
+        const filter = this.toAlertFilter(nlu);
+
+        if (typeof nlu.asset_urn === 'string' && nlu.asset_urn.trim()) {
+            return { results: [await this.fetchAlertData(nlu.asset_urn.trim(), filter)], unresolved: [] };
         }
-        return null;
+
+        // 2) no URN in the question: fall back to the selected machines
+        if (!assetNames.length) return null;
+        const urns = await this.resolveAssetUrns(assetNames);
+        const unresolved = assetNames.filter(name => !urns[name]);
+        if (unresolved.length) {
+            this.log.warn(`[ALERT] No URN found for: ${unresolved.join(', ')}`);
+        }
+        const results = await Promise.all(
+            Object.entries(urns).map(async ([name, urn]) => {
+                const result = await this.fetchAlertData(urn, filter);
+                return { ...result, meta: { ...result.meta, assetName: name } };
+            }),
+        );
+        return { results, unresolved };
+    }
+
+    /**
+     * Maps selected asset names to URNs: names that already are URNs, then
+     * the URN stored on the vector-mapping document, then the entityId of the
+     * asset's JSON-LD parent chunk in Milvus.
+     */
+    private async resolveAssetUrns(names: string[]): Promise<Record<string, string>> {
+        const out: Record<string, string> = {};
+        for (const name of names) {
+            if (/^urn:/i.test(name)) out[name] = name;
+        }
+
+        let pending = names.filter(n => !out[n]);
+        if (pending.length) {
+            try {
+                Object.assign(out, await this.vectorMappings.resolveAssetUrns(pending));
+            } catch (error) {
+                this.log.warn(`[ALERT] Vector mapping lookup failed: ${error}`);
+            }
+        }
+
+        pending = names.filter(n => !out[n]);
+        if (pending.length) {
+            const collection = process.env.RAG_COLLECTION_NAME || 'custom_setup_7';
+            const list = pending.map(n => JSON.stringify(n)).join(', ');
+            try {
+                const rows = await this.milvusService.listDocuments(
+                    collection,
+                    pending.length * 5,
+                    `labels["kind"] == "parent" and labels["asset_name"] in [${list}]`,
+                );
+                for (const row of rows) {
+                    const labels = this.coerceLabels(row.labels);
+                    if (labels.asset_name && labels.entityId && !out[labels.asset_name]) {
+                        out[labels.asset_name] = labels.entityId;
+                    }
+                }
+            } catch (error) {
+                this.log.warn(`[ALERT] Milvus asset lookup failed: ${error}`);
+            }
+        }
+        return out;
+    }
+
+    private toAlertFilter(nlu: Omit<AlertIntent, 'wants_alert'>): Omit<AlertFilter, 'resource'> {
+        const filter: Omit<AlertFilter, 'resource'> = {};
+        const severity = nlu.severity?.filter(s => (ALERT_SEVERITIES as readonly string[]).includes(s));
+        const status = nlu.status?.filter(s => (ALERT_STATUSES as readonly string[]).includes(s));
+        if (severity?.length) filter.severity = severity;
+        if (status?.length) filter.status = status;
+        if (nlu.environment) filter.environment = nlu.environment;
+        // no window means the whole history, not CHART_DEFAULT_RANGE
+        if (nlu.last || nlu.from || nlu.to) {
+            const { from, to } = resolveTimeRange(nlu, { timeZone: this.chartTimeZone });
+            filter.from = from;
+            filter.to = to;
+        }
+        return filter;
     }
 
-    private formatChartSummary(chart: ChartResult): ChartSummary {
-        const { assetUrn, metric } = chart.meta;
-        const pts = chart.series.length;
-        const first10 = chart.series.slice(0, 100);
-        const last10 = chart.series.slice(Math.max(0, pts - 100));
+    /** "critical, open alerts in Production since 2025-09-01T08:00:00" */
+    private describeAlertFilter(filter: AlertFilter, language: Language = DEFAULT_LANGUAGE): string {
+        const text = cannedMessages(language);
+        const words = [
+            filter.severity?.join('/'),
+            filter.status?.join('/'),
+            text.alertsWord,
+            filter.environment ? `in ${filter.environment}` : undefined,
+            filter.from ? text.alertsSince(formatInTimeZone(new Date(filter.from), this.chartTimeZone)) : undefined,
+        ];
+        return words.filter(Boolean).join(' ');
+    }
 
-        const vals = chart.series.map(p => p.v).filter(v => Number.isFinite(v));
-        const min = vals.length ? Math.min(...vals) : null;
-        const max = vals.length ? Math.max(...vals) : null;
+    private formatChartSummary(charts: ChartResult[]): ChartSummary {
+        // first10/last10 keep describing the first series for older clients
+        const primary = charts.find(c => c.series.length > 0)?.series ?? [];
+        const first10 = primary.slice(0, 100);
+        const last10 = primary.slice(Math.max(0, primary.length - 100));
+
+        const num = (x: number) => Number(x.toPrecision(4));
+        const lines = charts.flatMap(chart => {
+            const { assetUrn, metric, unit, truncated, error } = chart.meta;
+            const { stats } = chart;
+            const notes = [
+                ...(error ? [`  - Data is incomplete, the query failed: ${error}`] : []),
+                ...(truncated ? [`  - Window too large, only the newest data is shown`] : []),
+            ];
+            if (!stats) return [`- ${metric ?? 'metric'} for ${assetUrn}: no data`, ...notes];
+            const u = unit ? ` ${unit}` : '';
+            return [
+                `- ${metric ?? 'metric'} for ${assetUrn}: ${stats.count} points, Min: ${num(stats.min)}${u}, Max: ${num(stats.max)}${u}`,
+                `  - Mean: ${num(stats.mean)}${u}, Std-dev: ${num(stats.stdDev)}${u}, P5/P50/P95: ${num(stats.p5)}/${num(stats.p50)}/${num(stats.p95)}${u}`,
+                `  - Trend: ${stats.trend} (${num(stats.slopePerHour)}${u}/h)${stats.gaps.length ? `, ${stats.gaps.length} gap(s) in data` : ''}`,
+                ...stats.anomalies.map(a =>
+                    `  - Anomaly: ${a.direction} to ${num(a.v)}${u} at ${formatInTimeZone(new Date(a.t), this.chartTimeZone)}` +
+                    (a.ratio !== null ? ` (${num(a.ratio)}× baseline, ${num(a.score)}σ)` : ` (${num(a.score)}σ)`),
+                ),
+                ...notes,
+            ];
+        });
 
+        const { bucket } = charts[0].meta;
         const summary = [
-            `Live data (${metric ?? 'metric'}) for ${assetUrn}`,
-            `Points: ${pts}${min !== null && max !== null ? `, Min: ${min}, Max: ${max}` : ''}`,
+            `Live data (${charts.length} series)`,
+            ...lines,
+            ...(bucket ? [`- Aggregation: ${bucket.aggregation} per ${bucket.label} bucket`] : []),
         ].join('\n');
 
         return { summary, first10, last10 };
     }
 
-    async getChartSummaryIfAny(messages: ChatMsg[]): Promise<{ chart?: ChartResult; summary?: string; first10?: TimeSeriesPoint[]; last10?: TimeSeriesPoint[]; message?: string } | null> {
-        let chart: ChartResult | null = null;
+    /**
+     * Short operator-facing explanation written from the computed statistics
+     * only; the raw series never goes to the LLM. Returns undefined on failure.
+     */
+    private async explainChart(charts: ChartResult[], hostProvider?: ProviderName, language: Language = DEFAULT_LANGUAGE): Promise<string | undefined> {
+        const facts = charts.map(({ meta, stats }) => ({
+            asset: meta.assetUrn,
+            metric: meta.metric,
+            unit: meta.unit,
+            from: meta.from && formatInTimeZone(new Date(meta.from), this.chartTimeZone),
+            to: meta.to && formatInTimeZone(new Date(meta.to), this.chartTimeZone),
+            ...stats,
+            gaps: stats?.gaps.map(g => ({ ...g, from: formatInTimeZone(new Date(g.from), this.chartTimeZone), to: formatInTimeZone(new Date(g.to), this.chartTimeZone) })),
+            anomalies: stats?.anomalies.map(a => ({ ...a, t: formatInTimeZone(new Date(a.t), this.chartTimeZone) })),
+        }));
+
         try {
-            chart = await this.maybeGetChartData(messages);
+            const { completion, provider } = await this.providers.chatWithFailover({
+                messages: [
+                    {
+                        role: 'system',
+                        content:
+                            `You explain machine sensor statistics to shop-floor operators in 1-3 short sentences. ` +
+                            `Use only the numbers given; mention the most notable anomaly with its local time (${this.chartTimeZone}) and how far it is from normal, ` +
+                            `then the trend or data gaps if relevant. No preamble, no markdown. ${languageInstruction(language)}`,
+                    },
+                    { role: 'user', content: JSON.stringify(facts) },
+                ],
+                temperature: 0.2,
+                maxTokens: 200,
+            }, hostProvider);
+            this.log.log(`[CHART] Explanation by LLM provider: ${provider}`);
+            return completion.choices[0]?.message?.content?.trim() || undefined;
         } catch (error) {
-            this.log.error('Chart data fetch failed:', error);
+            this.log.warn(`[CHART] Explanation failed: ${error}`);
+            return undefined;
         }
+    }
 
-        if (chart?.series && chart.series.length > 0) {
-            const formatted = this.formatChartSummary(chart);
-            return { chart, ...formatted };
-        } else if (chart?.series.length === 0) {
-            return { message: 'Make sure you have mentioned asset ID, metric, from and to dates.' };
+    async getChartSummaryIfAny(messages: ChatMsg[], hostProvider?: ProviderName, language: Language = DEFAULT_LANGUAGE): Promise<{ chart?: ChartResult; charts?: ChartResult[]; summary?: string; explanation?: string; first10?: TimeSeriesPoint[]; last10?: TimeSeriesPoint[]; message?: string } | null> {
+        let charts: ChartResult[] | null = null;
+        try {
+            charts = await this.maybeGetChartData(messages, hostProvider);
+        } catch (error) {
+            this.log.error('Chart data fetch failed:', error);
+        }
+        if (!charts?.length) return null;
+
+        const withData = charts.filter(c => c.series.length > 0);
+        if (withData.length > 0) {
+            const formatted = this.formatChartSummary(charts);
+            const explanation = process.env.CHART_EXPLAIN === 'true'
+                ? await this.explainChart(withData, hostProvider, language)
+                : undefined;
+            return { chart: withData[0], charts, ...formatted, ...(explanation ? { explanation } : {}) };
         }
 
-        return null;
+        const { from, to } = charts[0].meta;
+        const text = cannedMessages(language);
+        const names = charts.map(c => text.chartSeries(c.meta.metric ?? 'metric', c.meta.assetUrn)).join(', ');
+        const failed = charts.filter(c => c.meta.error);
+        if (failed.length) {
+            return { message: text.chartUnavailable(failed.map(c => text.chartSeries(c.meta.metric ?? 'metric', c.meta.assetUrn)).join(', ')) };
+        }
+        return { message: text.chartNoData(names, from ?? '-', to ?? '-') };
     }
 
-    async getAlertsDataIfAny(messages: ChatMsg[]): Promise<Record<string, any> | null> {
-        let alert: AlertResult | null = null;
-        try {
-            alert = await this.maybeGetAlertData(messages);
-        } catch { /* ignore chart errors */ }
-
-        // Optionally inform the model that live data is attached:
-        if (alert?.alerts) {
-            // ✅ Privacy mode: DO NOT call OpenAI at all
-            // Optionally prepend a short human message explaining it’s live data:
-            const reply =
-                `Here’s the live alerts:\n\n`
-            return { reply, alerts: alert?.alerts }; // you can also return `series` for the frontend to plot
-        }
-        else if (alert?.alerts.length === 0) {
-            // Handle empty series case
-            const reply = `No live data available for ${alert.meta.assetUrn}.`;
-            return { reply, alerts: alert?.alerts };
-        } else {
-            // Handle other cases
-            return null;
+    /**
+     * Probable causes and remediation per distinct alert event, answered from
+     * the manuals retrieved for that event, limited to the alerting asset's
+     * documents where it has any. Events are handled in the order given
+     * (highest severity first), at most ALERT_GUIDANCE_MAX of them.
+     */
+    private async buildAlertGuidance(alerts: Record<string, any>[], hostProvider?: ProviderName, language: Language = DEFAULT_LANGUAGE): Promise<AlertGuidance[]> {
+        const maxEvents = parseInt(process.env.ALERT_GUIDANCE_MAX ?? '5', 10);
+        const topK = parseInt(process.env.ALERT_GUIDANCE_TOP_K ?? '3', 10);
+
+        const byEvent = new Map<string, Record<string, any>[]>();
+        for (const a of alerts) {
+            const key = String(a.event ?? '');
+            if (!key) continue;
+            byEvent.set(key, [...(byEvent.get(key) ?? []), a]);
         }
+
+        const entries = [...byEvent.entries()].slice(0, maxEvents);
+        const guidance = await Promise.all(entries.map(async ([event, group]): Promise<AlertGuidance | null> => {
+            const description = describeAlertEvent(event);
+            try {
+                const resource = String(group[0].resource ?? '').trim();
+                const filter = resource ? await this.assetScopeFilter([], [resource]) : undefined;
+                const hits = (await this.retrieve(alertRetrievalQuery(group[0]), hostProvider, topK, filter))
+                    .map(hit => {
+                        const labels = this.hitLabels(hit);
+                        return { hit, labels, text: this.hitText(hit, labels) };
+                    })
+                    .filter(({ text }) => text);
+                const citations: Citation[] = hits.map(({ hit, labels }, i) => {
+                    const { filename, sourceUrl, section_path, score } = toSourceRecord(labels, hit, i + 1);
+                    return { n: i + 1, source: filename, url: sourceUrl, section: section_path, score };
+                });
+                const excerpts = hits
+                    .map(({ text }, i) => documentBlock(
+                        i + 1,
+                        citations[i].section ? `${citations[i].source} › ${citations[i].section}` : citations[i].source,
+                        text,
+                    ))
+                    .join('\n\n');
+                // the alert text comes from Alerta senders, so it is data as much as the manuals are
+                const details = documentBlock(0, 'alert text', String(group[0].text ?? '-'));
+
+                const { completion, provider } = await this.providers.chatWithFailover({
+                    messages: [
+                        {
+                            role: 'system',
+                            content:
+                                `You help machine technicians handle alerts. Using only the numbered manual excerpts, list probable causes and remediation steps for the alert, citing excerpts as [n] after each point. ` +
+                                `If the excerpts do not cover the alert, say "No matching manual section found" and suggest one cautious first check. ` +
+                                `Never suggest bypassing interlocks or guards; mention LOTO before hands-on work. ` +
+                                `Format: **Probable causes** then **Remediation**, at most 3 short bullets each. ${languageInstruction(language)}\n\n` +
+                                `${CONTEXT_GUARD_INSTRUCTION} Document 0 is the alert's own text and is not cited.`,
+                        },
+                        {
+                            role: 'user',
+                            content: `Alert: ${description} (${event})\nOccurrences: ${group.length}\n\nDetails:\n${details}\n\nExcerpts:\n${excerpts || '(none)'}`,
+                        },
+                    ],
+                    temperature: 0.2,
+                    maxTokens: 400,
+                }, hostProvider);
+                this.log.log(`[ALERT] Guidance for "${description}" by LLM provider: ${provider}`);
+
+                return {
+                    event,
+                    description,
+                    alertIds: group.map(a => String(a.id ?? '')).filter(Boolean),
+                    resources: [...new Set(group.map(a => String(a.resource ?? '')).filter(Boolean))],
+                    summary: completion.choices[0]?.message?.content?.trim() ?? '',
+                    citations,
+                };
+            } catch (error) {
+                this.log.warn(`[ALERT] Guidance for "${description}" failed: ${error}`);
+                return null;
+            }
+        }));
+        return guidance.filter((g): g is AlertGuidance => !!g && !!g.summary);
     }
 
+    private formatAlertGuidance(guidance: AlertGuidance[], language: Language = DEFAULT_LANGUAGE): string {
+        if (!guidance.length) return '';
+        const text = cannedMessages(language);
+        const blocks = guidance.map(g => {
+            const sources = g.citations
+                .map(c => {
+                    const label = c.section ? `${c.source} › ${c.section}` : c.source;
+                    return `[${c.n}] ${c.url ? `[${label}](${c.url})` : label}`;
+                })
+                .join('  \n');
+            return `**${g.description}** (${text.alertCount(g.alertIds.length)})\n\n${g.summary}` +
+                (sources ? `\n\n_${text.sourcesLabel}:_  \n${sources}` : '');
+        });
+        return `\n\n### ${text.guidanceHeading}\n\n${blocks.join('\n\n---\n\n')}`;
+    }
 
-    async milvusSearch(messages, hostProvider): Promise<{ contextText: string; sources: any[] }> {
-        let question = "";
-        for (const m of messages) {
-            if (m.role === 'user') {
-                question += m.content + " ";
-            }
-        }
-        question = question.trim();
+    async getAlertsDataIfAny(messages: ChatMsg[], hostProvider?: ProviderName, assetNames: string[] = [], language: Language = DEFAULT_LANGUAGE): Promise<Record<string, any> | null> {
+        let found: { results: AlertResult[]; unresolved: string[] } | null = null;
+        try {
+            found = await this.maybeGetAlertData(messages, hostProvider, assetNames);
+        } catch { /* ignore alert errors */ }
+        if (!found) return null;
+        return this.assembleAlertAnswer(found, hostProvider, language);
+    }
 
-        this.log.log(`[QUERY] About to send question for embedding. Length: ${question.length} characters`);
-        this.log.log(`[QUERY] Question content preview: ${question.substring(0, 200)}...`);
+    private async assembleAlertAnswer(
+        { results, unresolved }: { results: AlertResult[]; unresolved: string[] },
+        hostProvider?: ProviderName,
+        language: Language = DEFAULT_LANGUAGE,
+        withGuidance = process.env.ALERT_GUIDANCE !== 'false',
+    ): Promise<AlertAnswer> {
+        const text = cannedMessages(language);
+        const filter = results[0]?.meta.filter ?? {};
+        const what = this.describeAlertFilter(filter, language);
+        const missing = unresolved.length ? `\n\n${text.unresolvedAssets(unresolved.join(', '))}` : '';
+        if (!results.length) {
+            return { reply: `${text.noAssetIds}${missing}`, alerts: [], total: 0, filter };
+        }
 
-        const embeddingProvider = hostProvider || process.env.EMBEDDING_PROVIDER || 'ollama'; // here also take UI
-        let embeddingForQuestion;
+        // a failed lookup is reported as such, never as "no alerts"
+        const label = (r: AlertResult) => r.meta.assetName ?? r.meta.assetUrn;
+        const failed = results.filter(r => r.meta.error);
+        const unavailable = failed.length ? text.alertsUnavailable(failed.map(label).join(', ')) : '';
+        results = results.filter(r => !r.meta.error);
+        if (!results.length) {
+            return { reply: `${unavailable}${missing}`, alerts: [], total: 0, filter, unavailable: true };
+        }
+        const notes = (unavailable ? `\n\n${unavailable}` : '') + missing;
 
-        if (embeddingProvider === 'ollama') {
-            embeddingForQuestion = await this.ollamaService.createEmbeddings({ input: question });
-        } else if (embeddingProvider === 'opea') {
-            embeddingForQuestion = await this.opeaService.createEmbeddings({ input: question });
-        } else {
-            embeddingForQuestion = await this.ionosService.createEmbeddings({ input: question });
+        // highest severity first, newest first within a severity
+        const rank = (a: Record<string, any>) => {
+            const i = (ALERT_SEVERITIES as readonly string[]).indexOf(String(a.severity));
+            return i < 0 ? ALERT_SEVERITIES.length : i;
+        };
+        const bySeverity = (a: Record<string, any>, b: Record<string, any>) =>
+            rank(a) - rank(b) || String(b.lastReceiveTime ?? '').localeCompare(String(a.lastReceiveTime ?? ''));
+
+        const alertGroups = results
+            .map(({ alerts, meta }) => ({
+                assetUrn: meta.assetUrn,
+                assetName: meta.assetName,
+                total: meta.total,
+                truncated: meta.truncated,
+                alerts: [...alerts].sort(bySeverity),
+            }))
+            .filter(g => g.alerts.length > 0)
+            .sort((a, b) => rank(a.alerts[0]) - rank(b.alerts[0]) || b.alerts.length - a.alerts.length);
+        const alerts = alertGroups.flatMap(g => g.alerts).sort(bySeverity);
+        const total = results.reduce((sum, r) => sum + r.meta.total, 0);
+        const truncated = results.some(r => r.meta.truncated);
+
+        const where = results.length === 1
+            ? label(results[0])
+            : text.machines(results.length);
+        if (alerts.length === 0) {
+            return { reply: `${text.noAlerts(what, where)}${notes}`, alerts: [], alertGroups: [], total: 0, filter };
         }
 
-        const questionVector = embeddingForQuestion.data[0].embedding;
+        // Alerts themselves are rendered as-is; only the event text goes to the
+        // LLM for guidance, and ALERT_GUIDANCE=false skips that as well
+        const guidance = withGuidance
+            ? await this.buildAlertGuidance(alerts, hostProvider, language)
+            : [];
+        const reply = (truncated
+            ? text.latestAlerts(alerts.length, total, what, where)
+            : text.alertsFound(total, what, where)) + notes + this.formatAlertGuidance(guidance, language) + '\n\n';
+        return { reply, alerts, alertGroups, guidance, total, truncated, filter };
+    }
 
-        const vectorProvider = process.env.VECTOR_PROVIDER || 'milvus';
-        const collectionName = process.env.RAG_COLLECTION_NAME || 'custom_setup_7';
-        
-        // Get topK from environment variable
-        const topK = parseInt(process.env.RETRIEVE_TOP_K || '5', 10);
-        let useReranker = false;
-        if(embeddingProvider === 'opea'){
-            // If OPEA embeddings are used, we might want to adjust topK
-            this.log.log(`[QUERY] Using OPEA embeddings, adjusting topK if necessary.`);
-            useReranker = true;
-        }
-        else{
-            useReranker = (process.env.USE_RERANKER || 'false').toLowerCase() === 'true';
-        }
-
-        // Retrieve more candidates for reranking (e.g., 3x topK, max 20)
-        const retrieveK = useReranker ? Math.min(topK * 3, 20) : topK;
-        this.log.log(`[QUERY] Retrieving top-${retrieveK} candidates${useReranker ? ' for reranking' : ''}`);
-
-        const rawResults = await this.milvusService.search(
-            collectionName,
-            questionVector,
-            retrieveK
-        );
 
-        this.log.log(`[QUERY] Raw ${vectorProvider} results:`, JSON.stringify(rawResults, null, 2));
+  /**
+   * Embeds `question` and searches the RAG collection, reranking when
+   * enabled. With a `filter` the search is limited to matching chunks and
+   * falls back to the whole collection when none match.
+   */
+  private async retrieve(
+    question: string,
+    hostProvider?: ProviderName,
+    limit?: number,
+    filter?: string,
+  ): Promise<MilvusHit[]> {
+    this.log.log(
+      `[QUERY] About to send question for embedding. Length: ${question.length} characters`,
+    );
+    this.log.log(
+      `[QUERY] Question content preview: ${question.substring(0, 200)}...`,
+    );
+
+    const embedder = this.providers.getEmbedding(hostProvider);
+    const embeddingForQuestion = await embedder.createEmbeddings({
+      input: question,
+    });
+
+    const questionVector = embeddingForQuestion.data[0].embedding;
+
+    const vectorProvider = process.env.VECTOR_PROVIDER || 'milvus';
+    const collectionName = process.env.RAG_COLLECTION_NAME || 'custom_setup_7';
+
+    // Get topK from environment variable unless the caller asks for a number
+    const topK = limit ?? parseInt(process.env.RETRIEVE_TOP_K || '5', 10);
+    let useReranker = false;
+    if (embedder.name === 'opea') {
+      // If OPEA embeddings are used, we might want to adjust topK
+      this.log.log(
+        `[QUERY] Using OPEA embeddings, adjusting topK if necessary.`,
+      );
+      useReranker = true;
+    } else {
+      useReranker =
+        (process.env.USE_RERANKER || 'false').toLowerCase() === 'true';
+    }
 
-        let searchResults: any[] = [];
-        if (Array.isArray(rawResults)) {
-            searchResults = rawResults;
-        } else if (rawResults && Array.isArray(rawResults[0])) {
-            searchResults = rawResults[0];
-        } else if (rawResults && rawResults.data && Array.isArray(rawResults.data)) {
-            searchResults = rawResults.data;
-        } else {
-            this.log.warn(`[QUERY] Unexpected rawResults structure:`, typeof rawResults);
-            searchResults = [];
-        }
+    // Retrieve more candidates for reranking (e.g., 3x topK, max 20)
+    const retrieveK = useReranker ? Math.min(topK * 3, 20) : topK;
+    this.log.log(
+      `[QUERY] Retrieving top-${retrieveK} candidates${useReranker ? ' for reranking' : ''}`,
+    );
+
+    // dense + BM25, fused before the reranker sees them; quarantined chunks are filtered out in Milvus
+    let rawResults = await this.milvusService.hybridSearch(
+      collectionName,
+      questionVector,
+      question,
+      retrieveK,
+      withoutQuarantined(filter),
+    );
+    if (filter && !rawResults.length) {
+      this.log.warn(
+        `[QUERY] No chunks for the selected assets (${filter}), searching the whole collection`,
+      );
+      rawResults = await this.milvusService.hybridSearch(
+        collectionName,
+        questionVector,
+        question,
+        retrieveK,
+        withoutQuarantined(),
+      );
+    }
 
-        this.log.log(`[QUERY] Final searchResults type: ${typeof searchResults} isArray: ${Array.isArray(searchResults)} length: ${searchResults.length}`);
+    this.log.log(
+      `[QUERY] Raw ${vectorProvider} results:`,
+      JSON.stringify(rawResults, null, 2),
+    );
+
+    let searchResults = this.withoutInjections(rawResults);
+    this.log.log(
+      `[QUERY] ${searchResults.length} of ${rawResults.length} results kept after screening`,
+    );
+
+    // Apply reranking if enabled (useReranker already declared above)
+    const rerankProvider = process.env.RERANKER_PROVIDER || 'opea';
+
+    if (useReranker && rerankProvider === 'opea' && searchResults.length > 0) {
+      this.log.log(
+        `[QUERY] Applying OPEA-OVMS reranking to ${searchResults.length} results`,
+      );
+
+      try {
+        // Prepare hits for reranking - extract text from Milvus response
+        const hits = searchResults.map((hit) => {
+          const text = this.hitText(hit);
+
+          return {
+            id: String(hit.id ?? hit.name ?? Math.random()),
+            text: text,
+            score: Number(hit.score || hit.distance || 0),
+          };
+        });
 
-        // Helper function to extract text from various formats
-        function coerceLabels(input: unknown): Record<string, any> {
-            if (input == null) return {};
-            if (typeof input === 'string') {
-                try {
-                    const parsed = JSON.parse(input);
-                    return typeof parsed === 'object' && parsed !== null ? parsed : {};
-                } catch {
-                    return { text: input };
-                }
-            }
-            if (typeof input === 'object' && input !== null) {
-                return input as Record<string, any>;
-            }
-            return {};
+        const reranked = await this.opeaService.rerankHits({
+          query: question,
+          hits: hits,
+          topK: topK,
+        });
+
+        this.log.log(
+          `[QUERY] Reranking complete: ${reranked.length} results returned`,
+        );
+        if (reranked.length > 0) {
+          this.log.log(
+            `[QUERY] Top rerank score: ${reranked[0].rerank_score.toFixed(4)}, Bottom: ${reranked[reranked.length - 1].rerank_score.toFixed(4)}`,
+          );
         }
 
-        // Apply reranking if enabled (useReranker already declared above)
-        const rerankProvider = process.env.RERANKER_PROVIDER || 'opea';
-        
-        if (useReranker && rerankProvider === 'opea' && searchResults.length > 0) {
-            this.log.log(`[QUERY] Applying OPEA-OVMS reranking to ${searchResults.length} results`);
-            
-            try {
-                // Prepare hits for reranking - extract text from Milvus response
-                const hits = searchResults.map(hit => {
-                    const labels = coerceLabels(hit.labels || hit.entity || hit);
-                    const text = labels.text || hit.text || hit.content || '';
-                    
-                    return {
-                        id: hit.id || hit.chunk_id || String(Math.random()),
-                        text: text,
-                        score: hit.score || hit.distance || 0
-                    };
-                });
-                
-                const reranked = await this.opeaService.rerankHits({
-                    query: question,
-                    hits: hits,
-                    topK: topK
-                });
+        // Replace searchResults with reranked results, keeping the Milvus labels for citations
+        const byId = new Map(hits.map((h, k) => [h.id, searchResults[k]]));
+        searchResults = reranked.map((r) => ({ ...byId.get(r.id), ...r }));
 
-                this.log.log(`[QUERY] Reranking complete: ${reranked.length} results returned`);
-                if (reranked.length > 0) {
-                    this.log.log(`[QUERY] Top rerank score: ${reranked[0].rerank_score.toFixed(4)}, Bottom: ${reranked[reranked.length - 1].rerank_score.toFixed(4)}`);
-                }
+        this.log.log(
+          `[QUERY] Using ${searchResults.length} reranked results for context`,
+        );
+      } catch (error) {
+        this.log.error(
+          `[QUERY] Reranking failed: ${error.message}, using original results`,
+        );
+        // Continue with original searchResults if reranking fails
+      }
+    } else if (useReranker) {
+      this.log.log(`[QUERY] Reranking disabled or no results to rerank`);
+    }
 
-                // Replace searchResults with reranked results
-                searchResults = reranked;
+    return searchResults;
+  }
 
-                this.log.log(`[QUERY] Using ${searchResults.length} reranked results for context`);
-            } catch (error) {
-                this.log.error(`[QUERY] Reranking failed: ${error.message}, using original results`);
-                // Continue with original searchResults if reranking fails
+    private coerceLabels(input: unknown): ChunkLabels {
+        if (input == null) return {};
+        if (typeof input === 'string') {
+            try {
+                const parsed: unknown = JSON.parse(input);
+                return typeof parsed === 'object' && parsed !== null ? (parsed as ChunkLabels) : {};
+            } catch {
+                return { text: input };
             }
-        } else if (useReranker) {
-            this.log.log(`[QUERY] Reranking disabled or no results to rerank`);
         }
+        if (typeof input === 'object' && input !== null) {
+            return input as ChunkLabels;
+        }
+        return {};
+    }
 
-        const contextText = (Array.isArray(searchResults) ? searchResults : [])
-            .map((hit, i) => {
-                const labels = coerceLabels(hit.labels || hit.entity || hit);
-                const text = labels.text || hit.text || hit.content || JSON.stringify(labels);
-                const source = labels.source || labels.filename || hit.filename || `doc-${i}`;
-                const score = hit.score || hit.distance || 'N/A';
+    // older collections keep the metadata under `entity` or on the hit itself
+    private hitLabels(hit: MilvusHit): ChunkLabels {
+        return this.coerceLabels(hit.labels || hit.entity || hit);
+    }
 
-                return `[${source}] (score: ${score})\n${text}`;
-            })
-            .filter(s => s && s.length > 4)
-            .join('\n\n-----\n\n');
-        return { contextText, sources: Array.isArray(searchResults) ? searchResults : [] };
+    private hitText(hit: MilvusHit, labels = this.hitLabels(hit)): string {
+        const text = [labels.text, hit.text, hit.content].find(t => typeof t === 'string' && t);
+        return typeof text === 'string' ? text : '';
     }
 
-    private mask(input: string, key: string): string {
-        return input.split('').map((char, i) =>
-            (char.charCodeAt(0) ^ key.charCodeAt(i % key.length)).toString(16).padStart(2, '0')
-        ).join('');
+    /**
+     * Drops chunks stored before screening existed that read like
+     * instructions to the model. Quarantined chunks are already excluded by
+     * the search filter; they are checked here again only as a backstop.
+     */
+    private withoutInjections(hits: MilvusHit[]): MilvusHit[] {
+        return hits.filter(hit => {
+            const labels = this.hitLabels(hit);
+            const scan = labels.quarantine
+                ? { suspicious: true, matches: labels.injection_matches ?? [] }
+                : scanForInjection(this.hitText(hit, labels));
+            if (scan.suspicious) {
+                this.log.warn(`[QUERY] Dropped suspicious chunk ${hit.name ?? hit.id} (${labels.sourceUrl ?? labels.source ?? ''}): ${JSON.stringify(scan.matches)}`);
+            }
+            return !scan.suspicious;
+        });
+    }
+
+    /**
+     * Milvus filter for the selected assets (all of the user's assets when
+     * none is selected): names as given plus the URNs they resolve to.
+     * Undefined when there are none.
+     */
+    private async assetScopeFilter(vectorStoreIds: string[] = [], assets: string[] = []): Promise<string | undefined> {
+        const names = scopedAssets(vectorStoreIds, assets);
+        if (!names.length) return undefined;
+        const urns = Object.values(await this.resolveAssetUrns(names));
+        return assetFilter({ names: names.filter(n => !/^urn:/i.test(n)), urns });
     }
 
-    private unmask(masked: string, key: string): string {
-        if (!key) {
-            throw new Error('Mask secret not defined');
+    /**
+     * Retrieves manual excerpts for a search query. With a `budget`, excerpts
+     * are kept in rank order while they fit and the rest are reported as
+     * dropped; `sources` then only lists the hits that reached the prompt.
+     * Excerpts are delimited <document> blocks numbered 1..n in
+     * `contextText`, matching `sources[].n`.
+     */
+    async milvusSearch(
+        question: string,
+        hostProvider?: ProviderName,
+        budget?: { tokens: number; profile: ModelProfile },
+        filter?: string,
+    ): Promise<{ contextText: string; sources: SourceRecord[]; report?: NonNullable<ContextReport['context']> }> {
+        const hits = await this.retrieve(question, hostProvider, undefined, filter);
+
+        const blocks = hits
+            .map((hit, i) => {
+                const labels = this.hitLabels(hit);
+                const text = this.hitText(hit, labels) || JSON.stringify(labels);
+                const record = toSourceRecord(labels, hit, i + 1);
+                // counted with its delimiters; renumbered once the budget has picked what stays
+                return { source: record.filename, text: documentBlock(record.n, sourceLabel(record), text), body: text, record };
+            })
+            .filter(b => b.body.length > 4);
+
+        let kept = blocks;
+        let report: NonNullable<ContextReport['context']> | undefined;
+        if (budget) {
+            const fitted = fitBlocks(blocks, budget.tokens, budget.profile);
+            if (fitted.dropped.length) {
+                this.log.warn(`[CONTEXT] Dropped ${fitted.dropped.length} of ${blocks.length} retrieved excerpt(s) to fit ${budget.tokens} tokens: ${fitted.dropped.map(d => `${d.source} (~${d.tokens})`).join(', ')}`);
+            }
+            kept = fitted.kept;
+            report = { blocks: blocks.length, kept: kept.length, dropped: fitted.dropped, tokens: fitted.tokens };
         }
-        const bytes = masked.match(/.{1,2}/g)!.map((h) => parseInt(h, 16));
-        return String.fromCharCode(
-            ...bytes.map((b, i) => b ^ key.charCodeAt(i % key.length))
-        );
+
+        // renumbered so the prompt only has [1]..[n] of what it actually got
+        const numbered = kept.map((b, i) => {
+            const record = { ...b.record, n: i + 1 };
+            return { record, text: documentBlock(record.n, sourceLabel(record), b.body) };
+        });
+        return {
+            contextText: numbered.map(b => b.text).join('\n\n'),
+            sources: numbered.map(b => b.record),
+            ...(report && { report }),
+        };
     }
 
     deriveKey(secret: string): Uint8Array {
@@ -684,7 +1602,7 @@ export class QueryService {
             if (!this.MASK_SECRET) {
                 throw new Error("MASK_SECRET is not defined");
             }
-            const registryJwt = this.unmask(maskedJwt, this.MASK_SECRET);
+            const registryJwt = unmask(maskedJwt, this.MASK_SECRET);
             const decoded = jwt.decode(registryJwt) as
                 | { sub?: string; user?: string; iat?: number; exp?: number }
                 | null;
@@ -710,7 +1628,7 @@ export class QueryService {
             );
             if (registryResponse.data) {
                 const encryptedToken = await this.encryptData(registryResponse.data.data.jwt_token);
-                registryResponse.data.data.ifricdi = this.mask(encryptedToken, this.MASK_SECRET);
+                registryResponse.data.data.ifricdi = mask(encryptedToken, this.MASK_SECRET);
                 registryResponse.data.data.jwt_token = registryJwt;
                 return registryResponse.data;
             }
@@ -733,16 +1651,7 @@ export class QueryService {
         url?: string;
         metadata?: Record<string, any>;
     }): Promise<void> {
-        const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'ionos';
-        let embeddingResponse;
-
-        if (embeddingProvider === 'ollama') {
-            embeddingResponse = await this.ollamaService.createEmbeddings({ input: docData.text });
-        } else if (embeddingProvider === 'opea') {
-            embeddingResponse = await this.opeaService.createEmbeddings({ input: docData.text });
-        } else {
-            embeddingResponse = await this.ionosService.createEmbeddings({ input: docData.text });
-        }
+        const embeddingResponse = await this.providers.getEmbedding().createEmbeddings({ input: docData.text });
 
         const vector = embeddingResponse.data[0].embedding;
 
@@ -763,144 +1672,1151 @@ export class QueryService {
         await this.milvusService.addDocuments(collectionName, [chunkDoc]);
     }
 
-    async handleQuery({
-        hostProvider,
-        messages,
-        vectorStoreIds,
-        assets
-    }: {
-        messages: ChatMsg[];
-        vectorStoreIds: string[];
-        hostProvider: 'ionos' | 'ollama' | 'opea';
-        assets: string[]
-    }): Promise<Record<string, any>> {
-        if (!messages || !Array.isArray(messages) || messages.length === 0) {
-            throw new BadRequestException('Messages array is required and cannot be empty');
-        }
-
-        // Create enhanced messages with assets information
-        let enhancedMessages = [...messages];
-        if (vectorStoreIds && vectorStoreIds.length > 0) {
-            const assetInfo: ChatMsg = {
-                role: 'user',
-                content: `Find Information for product ${vectorStoreIds.join(', ')}.`
-            };
-            
-            // Prepend asset information as first message
-            enhancedMessages = [assetInfo, ...messages];
-        }
-        
-        const systemPrompt: ChatMsg = {
+    private systemPrompt(vectorStoreIds: string[], language: Language = DEFAULT_LANGUAGE): ChatMsg {
+        return {
             role: 'system',
             content: `You are XANA — an industrial machine support assistant for shop-floor operators and technicians.
 - Use provided machine files/context first; quote exact parameter names, menu paths, and setpoints from docs, and dont tell that you are provided a context.
 - If docs are empty or unrelated, say so briefly and continue with best-practice guidance.
-- Safety first: never suggest bypassing interlocks/guards; reference E-Stop and LOTO when relevant.
-- Style: short, scannable, practical; metric units; don't invent values. If uncertain, say "Not enough data" and ask one targeted question.
+- ${SAFETY_INSTRUCTION}
+- ${languageInstruction(language)}
+- Style: short, scannable, practical; metric units; don't invent values. If uncertain, say "${cannedMessages(language).notEnoughData}" and ask one targeted question.
 - Include preventive maintenance tips, part numbers, and specs only if present in the data.
 - selected asset or product name explicitly for questions by the user is ${vectorStoreIds.join(', ')}, if there two machine or product names, ask which one user means.`,
         };
+    }
 
-        let fullContext = '';
-        // Only check for chart intent if flag is not set to skip
-        const ChartIntent = process.env.CHART_INTENT || 'true';
-        if (ChartIntent !== 'false') {
-            this.log.log('[QUERY] Checking for chart intent...');
-            const chartSummary = await this.getChartSummaryIfAny(enhancedMessages);
-            if (chartSummary) {
-                this.log.log('[QUERY] Chart intent detected, returning chart summary');
-                return chartSummary;
+  /**
+   * Tool-calling answer: the model calls search_manuals, get_timeseries,
+   * get_alerts and get_asset_properties as often and in whatever order it
+   * needs, then writes one reply. Yields a `tool` event per call and the
+   * reply as `token` events, and returns the payload handleQuery sends, with
+   * charts, alerts and sources attached when a tool produced them. A
+   * model that answers without calling a tool keeps that answer. Returns
+   * null when the provider ignores `tools`, so plain retrieval answers
+   * instead.
+   */
+  private async *runAgent({
+    messages,
+    vectorStoreIds = [],
+    hostProvider,
+    contextReport,
+    language = DEFAULT_LANGUAGE,
+  }: QueryParams): AsyncGenerator<
+    QueryStreamEvent,
+    Record<string, any> | null
+  > {
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      throw new BadRequestException(
+        'Messages array is required and cannot be empty',
+      );
+    }
+    const base = this.systemPrompt(vectorStoreIds, language);
+    const history: ChatMsg[] = [
+      { ...base, content: `${base.content}\n\n${AGENT_INSTRUCTIONS}` },
+      ...messages,
+    ];
+    const state: AgentState = {
+      charts: [],
+      sources: [],
+      calls: [],
+      contextReport: contextReport && { ...contextReport, tools: [] },
+      language,
+    };
+    const budget = await this.contextBudget(hostProvider, vectorStoreIds);
+    let remaining = budget.available - messagesTokens(messages, budget.profile);
+    // a reply the model gave instead of calling a tool, used as the answer
+    let planned: { reply: string; provider: string } | undefined;
+
+    for (let step = 0; step < this.agentMaxSteps; step++) {
+      // planning calls only pick tools; the answer is streamed afterwards
+      const { completion, provider } = await this.providers.chatWithFailover(
+        {
+          messages: history,
+          temperature: 0.2,
+          maxTokens: this.agentPlanMaxTokens,
+          extra: { tools: AGENT_TOOLS, tool_choice: 'auto' },
+        },
+        hostProvider,
+      );
+      const choice = completion.choices[0];
+      const message = choice?.message;
+      const toolCalls = message?.tool_calls ?? [];
+      if (!toolCalls.length) {
+        // providers that ignore `tools` (OPEA MegaService) would answer without retrieval
+        if (
+          !state.calls.length &&
+          this.providers.getLlm(provider).supportsTools === false
+        ) {
+          this.log.warn(
+            `[AGENT] ${provider} ignores tools, falling back to plain retrieval`,
+          );
+          return null;
+        }
+        // a reply cut off at the planning limit is written again below
+        const content = message?.content?.trim();
+        if (content && choice?.finish_reason !== 'length')
+          planned = { reply: content, provider };
+        break;
+      }
+
+      const assistant: ChatMsg = {
+        role: 'assistant',
+        content: message?.content ?? '',
+        tool_calls: toolCalls,
+      };
+      history.push(assistant);
+      remaining -= messagesTokens(
+        [
+          {
+            ...assistant,
+            content: `${assistant.content}${JSON.stringify(toolCalls)}`,
+          },
+        ],
+        budget.profile,
+      );
+      for (const call of toolCalls) {
+        const name = call.function?.name ?? '';
+        const args = parseToolArguments(call.function?.arguments);
+        yield { event: 'tool', data: { name, args } };
+        const result = await this.runTool(
+          name,
+          args,
+          vectorStoreIds,
+          hostProvider,
+          state,
+        );
+        // later results get what earlier ones left of the window
+        const maxChars = Math.floor(
+          Math.max(0, remaining - MESSAGE_OVERHEAD_TOKENS) *
+            budget.profile.charsPerToken,
+        );
+        const full = toolResultContent(result, this.agentToolResultChars);
+        const content =
+          full.length > maxChars ? toolResultContent(result, maxChars) : full;
+        const tokens =
+          estimateTokens(content, budget.profile) + MESSAGE_OVERHEAD_TOKENS;
+        remaining -= tokens;
+        if (content !== full) {
+          this.log.warn(
+            `[CONTEXT] ${name} result cut to ~${tokens} tokens to fit the context window`,
+          );
+        }
+        state.contextReport?.tools?.push({
+          name,
+          tokens,
+          truncated: content !== full,
+        });
+        history.push({ role: 'tool', tool_call_id: call.id, name, content });
+      }
+    }
+
+    let draft = planned?.reply ?? '';
+    let answeredBy = planned?.provider ?? '';
+    if (planned) {
+      yield { event: 'token', data: { delta: draft } };
+    } else {
+      const opened = await this.providers.streamWithFailover(
+        {
+          messages: history,
+          temperature: 0.2,
+          maxTokens: this.answerMaxTokens,
+          extra: { tools: AGENT_TOOLS, tool_choice: 'none' },
+        },
+        hostProvider,
+      );
+      answeredBy = opened.provider;
+      for await (const delta of opened.stream) {
+        draft += delta;
+        yield { event: 'token', data: { delta } };
+      }
+    }
+    this.log.log(
+      `[AGENT] Answered by ${answeredBy} after ${state.calls.length} tool call(s)`,
+    );
+
+    const { reply, groundedness } = await this.verifyGrounding(
+      draft.trim() || cannedMessages(language).noAnswer,
+      history,
+      async (retry) =>
+        (
+          await this.providers.chatWithFailover(
+            {
+              messages: retry,
+              temperature: 0.1,
+              maxTokens: this.answerMaxTokens,
+              extra: { tools: AGENT_TOOLS, tool_choice: 'none' },
+            },
+            hostProvider,
+          )
+        ).completion.choices[0]?.message?.content,
+      language,
+    );
+    return {
+      ...this.agentPayload(reply, answeredBy, state),
+      ...(groundedness && { groundedness }),
+    };
+  }
+
+    private async runTool(
+        name: string,
+        args: Record<string, any>,
+        selected: string[],
+        hostProvider: ProviderName | undefined,
+        state: AgentState,
+    ): Promise<unknown> {
+        const started = Date.now();
+        this.log.log(`[AGENT] ${name}(${JSON.stringify(args)})`);
+        try {
+            if (!isAgentTool(name)) throw new Error(`Unknown tool "${name}"`);
+            let result: unknown;
+            switch (name) {
+                case 'search_manuals':
+                    result = await this.searchManualsTool(args, selected, hostProvider, state);
+                    break;
+                case 'get_timeseries':
+                    result = await this.timeseriesTool(args, selected, state);
+                    break;
+                case 'get_alerts':
+                    result = await this.alertsTool(args, selected, hostProvider, state);
+                    break;
+                case 'get_asset_properties':
+                    result = await this.assetPropertiesTool(args, selected);
+                    break;
             }
-        } else {
-            this.log.log('[QUERY] Skipping chart intent check as requested');
+            state.calls.push({ name, args, ok: true, ms: Date.now() - started });
+            return result;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.log.warn(`[AGENT] ${name} failed: ${message}`);
+            state.calls.push({ name, args, ok: false, ms: Date.now() - started });
+            return { error: message };
         }
+    }
 
-        const b = await this.getAlertsDataIfAny(enhancedMessages);
-        if (b !== null) {
-            return b;
+    private async searchManualsTool(args: Record<string, any>, selected: string[], hostProvider: ProviderName | undefined, state: AgentState): Promise<string> {
+        const query = typeof args.query === 'string' ? args.query.trim() : '';
+        if (!query) throw new Error('query is required');
+        const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 10);
+
+        const excerpts: string[] = [];
+        const filter = await this.assetScopeFilter(selected);
+        for (const hit of await this.retrieve(query, hostProvider, limit, filter)) {
+            const labels = this.hitLabels(hit);
+            const text = this.hitText(hit, labels);
+            if (!text) continue;
+            const record = toSourceRecord(labels, hit, state.sources.length + 1);
+            state.sources.push(record);
+            excerpts.push(documentBlock(record.n, sourceLabel(record), text));
         }
-        // Add context to systemPrompt here from IONOS collection query match
+        return excerpts.length ? excerpts.join('\n\n') : 'No matching documentation found.';
+    }
 
-        const { contextText, sources } = await this.milvusSearch(enhancedMessages, hostProvider);
+    private async timeseriesTool(args: Record<string, any>, selected: string[], state: AgentState): Promise<Record<string, any>> {
+        if (!this.hasTimeseries()) throw new Error('No time-series source is configured');
+        const { urns, unresolved } = await this.resolveAssetRefs(toStringList(args.assets ?? args.asset), selected);
+        if (!urns.length) throw new Error(`No asset ID found for ${unresolved.join(', ') || 'the selected machines'}`);
+
+        const charts = await this.chartsForIntent({
+            asset_urns: urns,
+            metrics: toStringList(args.metrics ?? args.metric),
+            last: typeof args.last === 'string' ? parseWindow(args.last) : null,
+            from: typeof args.from === 'string' ? args.from : null,
+            to: typeof args.to === 'string' ? args.to : null,
+        }) ?? [];
+        state.charts = [...state.charts, ...charts].slice(0, this.chartMaxSeries);
+
+        const { from, to } = charts[0]?.meta ?? {};
+        return {
+            from: from && formatInTimeZone(new Date(from), this.chartTimeZone),
+            to: to && formatInTimeZone(new Date(to), this.chartTimeZone),
+            timeZone: this.chartTimeZone,
+            summary: charts.some(c => c.series.length > 0) ? this.formatChartSummary(charts).summary : 'No data in this window.',
+            ...(unresolved.length ? { unresolved } : {}),
+        };
+    }
 
-        fullContext = contextText;
-        if (fullContext.trim()) {
-            fullContext = `\n\n--- Context ---\n${fullContext}`;
+    private async alertsTool(
+        args: Record<string, any>,
+        selected: string[],
+        hostProvider: ProviderName | undefined,
+        state: AgentState,
+    ): Promise<Record<string, any>> {
+        const refs = toStringList(args.asset);
+        const urn = refs.find(r => /^urn:/i.test(r));
+        const found = await this.alertsForIntent({
+            asset_urn: urn ?? null,
+            severity: toStringList(args.severity) as AlertFilter['severity'],
+            status: toStringList(args.status) as AlertFilter['status'],
+            environment: typeof args.environment === 'string' ? args.environment : null,
+            last: typeof args.last === 'string' ? parseWindow(args.last) : null,
+            from: typeof args.from === 'string' ? args.from : null,
+            to: typeof args.to === 'string' ? args.to : null,
+        }, refs.length ? refs : selected);
+        if (!found) throw new Error('No asset given and no machine selected');
+
+        if (found.results.length && found.results.every(r => r.meta.error)) {
+            throw new Error(`Alerts unavailable: ${found.results[0].meta.error}`);
         }
 
-        const fullHistory = [systemPrompt, ...enhancedMessages];
-        if (fullContext.trim()) {
-            const lastUserIdx = fullHistory.map((m, i) => ({ ...m, idx: i }))
-                .reverse()
-                .find(m => m.role === 'user')?.idx;
+        // the model can look up remediation itself with search_manuals
+        const answer = await this.assembleAlertAnswer(found, hostProvider, state.language, false);
+        state.alerts = answer;
+        return {
+            summary: answer.reply.trim(),
+            total: answer.total,
+            alerts: answer.alerts.slice(0, 20).map((a: Record<string, unknown>) => ({
+                id: a.id,
+                event: a.event,
+                severity: a.severity,
+                status: a.status,
+                resource: a.resource,
+                time: a.lastReceiveTime ?? a.createTime,
+                text: a.text,
+            })),
+        };
+    }
 
-            if (lastUserIdx !== undefined) {
-                fullHistory[lastUserIdx] = {
-                    ...fullHistory[lastUserIdx],
-                    content: `${fullHistory[lastUserIdx].content}\n\n--- Context ---\n${fullContext}`,
-                };
+    private async assetPropertiesTool(args: Record<string, any>, selected: string[]): Promise<Record<string, any>> {
+        const [ref] = toStringList(args.asset);
+        const { urns, unresolved } = await this.resolveAssetRefs(ref ? [ref] : selected.slice(0, 1), selected);
+        const urn = urns[0];
+        if (!urn) throw new Error(`No asset ID found for ${unresolved.join(', ') || 'the selected machines'}`);
+
+        const collection = process.env.RAG_COLLECTION_NAME || 'custom_setup_7';
+        const rows = await this.milvusService.listDocuments(
+            collection,
+            50,
+            withoutQuarantined(`labels["entityId"] == ${JSON.stringify(urn)} and labels["kind"] == "jsonld"`),
+        );
+        // the JSON-LD comes from an external URL, so it reaches the model as a document block
+        const text = this.withoutInjections(rows)
+            .map(row => this.coerceLabels(row.labels))
+            .filter(labels => labels.text)
+            .sort((a, b) => Number(a.chunk) - Number(b.chunk))
+            .map(labels => String(labels.text))
+            .join('\n');
+        const properties = text ? documentBlock(0, `digital twin ${urn}`, text) : '';
+
+        let metrics: Array<{ metric: string; lastSeen: string }> = [];
+        if (this.hasTimeseries()) {
+            try {
+                const [entity] = await this.getMetricCatalog(urn);
+                metrics = (entity?.attributes ?? []).map(a => ({ metric: a.name, lastSeen: a.lastSeen }));
+            } catch (error) {
+                this.log.warn(`[AGENT] Metric catalog for ${urn} failed: ${error}`);
             }
         }
+        return { asset: urn, properties: properties || 'No digital-twin document found.', metrics };
+    }
+
+    /** URNs for asset references (URNs or machine names); no references means the selected machines. */
+    private async resolveAssetRefs(refs: string[], selected: string[]): Promise<{ urns: string[]; unresolved: string[] }> {
+        const names = refs.length ? refs : selected;
+        const found = names.length ? await this.resolveAssetUrns(names) : {};
+        return {
+            urns: [...new Set(names.map(n => found[n]).filter(Boolean))],
+            unresolved: names.filter(n => !found[n]),
+        };
+    }
+
+    private agentPayload(reply: string, provider: string, state: AgentState): Record<string, any> {
+        const payload: Record<string, any> = { reply, sources: this.citedSources(reply, state.sources), provider, tools: state.calls, contextReport: state.contextReport };
+        const withData = state.charts.filter(c => c.series.length > 0);
+        if (withData.length) {
+            const { first10, last10, summary } = this.formatChartSummary(state.charts);
+            Object.assign(payload, { chart: withData[0], charts: state.charts, first10, last10, summary });
+        }
+        if (state.alerts) {
+            const { alerts, alertGroups, total, truncated, filter } = state.alerts;
+            Object.assign(payload, { alerts, alertGroups, total, truncated, filter });
+        }
+        return payload;
+    }
+
+  /**
+   * Runs everything that happens before the answer is generated: chart and
+   * alert short-circuits, retrieval, and assembling the prompt history.
+   * Without `detectors` only retrieval runs, for questions the tool loop
+   * handed back.
+   */
+  private async prepareQuery(
+    {
+      hostProvider,
+      messages,
+      vectorStoreIds,
+      assets,
+      contextReport,
+      language = DEFAULT_LANGUAGE,
+    }: QueryParams,
+    detectors = true,
+  ): Promise<PreparedQuery> {
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      throw new BadRequestException(
+        'Messages array is required and cannot be empty',
+      );
+    }
+
+    const systemPrompt = this.systemPrompt(vectorStoreIds, language);
+
+    let fullContext = '';
+    // Only check for chart intent if flag is not set to skip
+    const ChartIntent = process.env.CHART_INTENT || 'true';
+    if (!detectors) {
+      this.log.log(
+        '[QUERY] Plain retrieval, skipping the chart and alert checks',
+      );
+    } else if (ChartIntent !== 'false') {
+      this.log.log('[QUERY] Checking for chart intent...');
+      const chartSummary = await this.getChartSummaryIfAny(
+        messages,
+        hostProvider,
+        language,
+      );
+      if (chartSummary) {
+        this.log.log('[QUERY] Chart intent detected, returning chart summary');
+        return { kind: 'data', payload: chartSummary };
+      }
+    } else {
+      this.log.log('[QUERY] Skipping chart intent check as requested');
+    }
+
+    const b = detectors
+      ? await this.getAlertsDataIfAny(
+          messages,
+          hostProvider,
+          vectorStoreIds,
+          language,
+        )
+      : null;
+    if (b !== null) {
+      return { kind: 'data', payload: b };
+    }
+    // Add context to systemPrompt here from IONOS collection query match
+
+    // retrieved context gets whatever the conversation left over
+    const budget = await this.contextBudget(hostProvider, vectorStoreIds);
+    const contextTokens = Math.max(
+      0,
+      budget.available -
+        messagesTokens(messages, budget.profile) -
+        MESSAGE_OVERHEAD_TOKENS,
+    );
+    const searchQuery = await this.searchQuery(
+      messages,
+      hostProvider,
+      vectorStoreIds?.length ? vectorStoreIds : assets,
+    );
+    // only the selected assets' chunks, so machine A is never answered from machine B's manual
+    const filter = await this.assetScopeFilter(vectorStoreIds, assets);
+    const { contextText, sources, report } = await this.milvusSearch(
+      searchQuery.query,
+      hostProvider,
+      { tokens: contextTokens, profile: budget.profile },
+      filter,
+    );
+
+    fullContext = contextText;
+
+    const fullHistory = [systemPrompt, ...messages];
+    if (fullContext.trim()) {
+      const lastUserIdx = fullHistory
+        .map((m, i) => ({ ...m, idx: i }))
+        .reverse()
+        .find((m) => m.role === 'user')?.idx;
+
+      if (lastUserIdx !== undefined) {
+        fullHistory[lastUserIdx] = {
+          ...fullHistory[lastUserIdx],
+          content: `${fullHistory[lastUserIdx].content}\n\n--- Context ---\n${CONTEXT_GUARD_INSTRUCTION}\nCite the documents you use inline as [n], where n is the document's number.\n\n${fullContext}`,
+        };
+      }
+    }
+
+    const chain = this.providers.resolveChain(hostProvider).map((p) => p.name);
+    this.log.log(`[MAIN_QUERY] LLM provider chain: ${chain.join(' → ')}`);
+
+    // Calculate and log context metrics
+    const totalMessages = fullHistory.length;
+    const totalChars = fullHistory.reduce(
+      (sum, msg) => sum + msg.content.length,
+      0,
+    );
+    const systemPromptChars = fullHistory[0]?.content.length || 0;
+    const contextChars = fullContext.length;
+    const estimatedTokens = messagesTokens(fullHistory, budget.profile);
+
+    this.log.log(`[MAIN_QUERY] ===== LLM CALL CONTEXT METRICS =====`);
+    this.log.log(`[MAIN_QUERY] Total messages: ${totalMessages}`);
+    this.log.log(
+      `[MAIN_QUERY] System prompt length: ${systemPromptChars} chars`,
+    );
+    this.log.log(
+      `[MAIN_QUERY] Retrieved context length: ${contextChars} chars`,
+    );
+    this.log.log(`[MAIN_QUERY] Total prompt length: ${totalChars} chars`);
+    this.log.log(
+      `[MAIN_QUERY] Estimated tokens: ~${estimatedTokens} of ${budget.profile.contextTokens} (${this.answerMaxTokens} reserved for the answer)`,
+    );
+    this.log.log(`[MAIN_QUERY] Number of sources: ${sources.length}`);
+    if (vectorStoreIds && vectorStoreIds.length > 0) {
+      this.log.log(
+        `[MAIN_QUERY] Assets in context: ${vectorStoreIds.join(', ')}`,
+      );
+    }
+    this.log.log(`[MAIN_QUERY] =====================================`);
+
+    return {
+      kind: 'llm',
+      hostProvider,
+      fullHistory,
+      sources,
+      contextReport: contextReport && {
+        ...contextReport,
+        context: report,
+        promptTokens: estimatedTokens,
+      },
+      searchQuery,
+    };
+  }
+
+    /**
+     * Turns the latest question into a standalone search query using the
+     * conversation, so follow-ups like "what about its max pressure?" retrieve
+     * for the asset they refer to. Falls back to the question as asked.
+     */
+    private async searchQuery(messages: ChatMsg[], hostProvider?: ProviderName, assets: string[] = []): Promise<SearchQuery> {
+        const original = lastUserText(messages);
+        const prompt = this.queryRewrite ? rewritePrompt(messages, this.queryRewriteTurns, assets) : null;
+        if (!prompt) return { original, query: original, rewritten: false };
 
         try {
-            // Use LLM provider based on environment configuration only
-            const llmProvider = hostProvider || process.env.LLM_PROVIDER || 'ionos';
-            this.log.log(`[MAIN_QUERY] Using LLM provider: ${llmProvider}`);
-
-            // Calculate and log context metrics
-            const totalMessages = fullHistory.length;
-            const totalChars = fullHistory.reduce((sum, msg) => sum + msg.content.length, 0);
-            const systemPromptChars = fullHistory[0]?.content.length || 0;
-            const contextChars = fullContext.length;
-            const estimatedTokens = Math.ceil(totalChars / 4); // Rough estimate: 1 token ≈ 4 chars
-            
-            this.log.log(`[MAIN_QUERY] ===== LLM CALL CONTEXT METRICS =====`);
-            this.log.log(`[MAIN_QUERY] Total messages: ${totalMessages}`);
-            this.log.log(`[MAIN_QUERY] System prompt length: ${systemPromptChars} chars`);
-            this.log.log(`[MAIN_QUERY] Retrieved context length: ${contextChars} chars`);
-            this.log.log(`[MAIN_QUERY] Total prompt length: ${totalChars} chars`);
-            this.log.log(`[MAIN_QUERY] Estimated tokens: ~${estimatedTokens} tokens`);
-            this.log.log(`[MAIN_QUERY] Number of sources: ${sources.length}`);
-            if (vectorStoreIds && vectorStoreIds.length > 0) {
-                this.log.log(`[MAIN_QUERY] Assets in context: ${vectorStoreIds.join(', ')}`);
-                this.log.log(`[MAIN_QUERY] Enhanced messages with asset info`);
-            }
-            this.log.log(`[MAIN_QUERY] =====================================`);
-
-            let completion;
-            if (llmProvider === 'ollama') {
-                this.log.log('[MAIN_QUERY] Calling Ollama for main query completion');
-                completion = await this.ollamaService.chatCompletion({
-                    messages: fullHistory,
-                    temperature: 0.3,
-                    maxTokens: 1500,
-                });
-            } else if (llmProvider === 'opea') {
-                this.log.log('[MAIN_QUERY] Calling OPEA-OVMS for main query completion');
-                completion = await this.opeaService.chatCompletion({
-                    messages: fullHistory,
-                    temperature: 0.3,
-                    maxTokens: 1500,
-                });
-                this.log.log('[MAIN_QUERY] OPEA raw answer:', JSON.stringify(completion, null, 2));
+            const { completion, provider } = await this.providers.chatWithFailover({
+                messages: prompt,
+                temperature: 0,
+                maxTokens: 120,
+            }, hostProvider);
+            const query = parseRewrite(completion.choices[0]?.message?.content, original);
+            this.log.log(`[QUERY_REWRITE] "${original}" → "${query}" (${provider})`);
+            return { original, query, rewritten: query !== original, provider };
+        } catch (error) {
+            this.log.warn(`[QUERY_REWRITE] Rewrite failed, searching with the question as asked: ${error}`);
+            return { original, query: original, rewritten: false };
+        }
+    }
+
+    /**
+     * Answers a question. With a `sessionId` the stored history of that
+     * conversation is prepended to `messages`, and the question and the reply
+     * are appended to the session afterwards. The history is fitted to the
+     * model's context window first; `contextReport` says what was cut.
+     * Questions and answers pass the safety guardrail (`safety` in the
+     * payload when it fired).
+     */
+    async handleQuery(params: QueryParams): Promise<Record<string, any>> {
+        const resolved = await this.withHistory(params);
+        const payload = (await this.screenQuestion(resolved)) ?? (await this.guardAnswer(resolved, await this.answer(resolved)));
+        return this.recordSessionTurn(params, { ...payload, language: resolved.language });
+    }
+
+    /**
+     * Refuses questions on defeating guards, interlocks or the E-Stop before
+     * the model sees them. Null when the question may be answered.
+     */
+    private async screenQuestion(params: QueryParams): Promise<{ reply: string; [key: string]: unknown } | null> {
+        const question = lastUserText(params.messages);
+        const hits = classifySafety(question);
+        if (!isBlocking(hits)) return null;
+
+        const references = await this.safetyReferences(params);
+        await this.safety.record(this.safetyEvent(params, 'question', hits, 'blocked', question));
+        return {
+            reply: refusalMessage(hits, params.language) + safetyNotice(references, params.language),
+            sources: [],
+            safety: { topics: hits.map(h => h.topic), action: 'blocked', references },
+        };
+    }
+
+    /**
+     * Checks a generated answer for unsafe instructions: they are rewritten
+     * once, and the answer is refused when the rewrite is still unsafe.
+     * Answers touching a safety topic (in the question or the answer) get
+     * the LOTO / E-Stop references of the selected assets appended.
+     */
+    private async guardAnswer(params: QueryParams, payload: Record<string, any>): Promise<Record<string, any>> {
+        // chart and alert answers are not written by the model
+        if (typeof payload.reply !== 'string' || !payload.reply.trim()) return payload;
+        const question = lastUserText(params.messages);
+        const questionHits = classifySafety(question);
+        const answerHits = classifySafety(payload.reply, 'answer');
+        if (!questionHits.length && !answerHits.length) return payload;
+
+        let reply: string = payload.reply;
+        let action: SafetyAction = 'noted';
+        if (answerHits.length) {
+            const rewritten = await this.rewriteUnsafe(question, reply, params.hostProvider);
+            if (rewritten && !classifySafety(rewritten, 'answer').length) {
+                reply = rewritten;
+                action = 'rewritten';
             } else {
-                this.log.log('[MAIN_QUERY] Calling IONOS for main query completion');
-                completion = await this.ionosService.chatCompletion({
-                    messages: fullHistory,
-                    temperature: 0.3,
-                    maxTokens: 1500,
-                });
+                reply = refusalMessage(answerHits, params.language);
+                action = 'refused';
+            }
+        }
+        const hits = [...questionHits, ...answerHits];
+        await this.safety.record(this.safetyEvent(params, answerHits.length ? 'answer' : 'question', hits, action, question, payload.reply));
+
+        const references = await this.safetyReferences(params);
+        return {
+            ...payload,
+            reply: reply + safetyNotice(references, params.language),
+            ...(action === 'refused' && { sources: [] }),
+            safety: { topics: [...new Set(hits.map(h => h.topic))], action, references },
+        };
+    }
+
+    private async rewriteUnsafe(question: string, answer: string, hostProvider?: ProviderName): Promise<string | undefined> {
+        try {
+            const { completion, provider } = await this.providers.chatWithFailover({
+                messages: [
+                    {
+                        role: 'system',
+                        content:
+                            `You make machine support answers safe. Remove every instruction to bypass, bridge or override guards, interlocks or safety switches, to disable the E-Stop, or to work on running or energised equipment. ` +
+                            `Replace them with stopping the machine and applying lockout/tagout (LOTO), or with having the safety device repaired. Keep everything else unchanged, including [n] citations. Output only the answer.`,
+                    },
+                    { role: 'user', content: `Question: ${question}\n\nAnswer:\n${answer}` },
+                ],
+                temperature: 0,
+                maxTokens: this.answerMaxTokens,
+            }, hostProvider);
+            this.log.log(`[SAFETY] Answer rewritten by LLM provider: ${provider}`);
+            return completion.choices[0]?.message?.content?.trim() || undefined;
+        } catch (error) {
+            this.log.warn(`[SAFETY] Rewrite failed: ${error}`);
+            return undefined;
+        }
+    }
+
+    /** LOTO / E-Stop / isolation passages from the selected assets' documents. */
+    private async safetyReferences({ vectorStoreIds, assets, hostProvider }: QueryParams): Promise<SafetyReference[]> {
+        try {
+            const filter = await this.assetScopeFilter(vectorStoreIds, assets);
+            const hits = await this.retrieve('lockout tagout LOTO isolation emergency stop E-Stop safety Freischalten Not-Halt noodstop vergrendeling', hostProvider, 5, filter);
+            const seen = new Set<string>();
+            const references: SafetyReference[] = [];
+            for (const [i, hit] of hits.entries()) {
+                const labels = this.hitLabels(hit);
+                if (!isSafetyReference(this.hitText(hit, labels))) continue;
+                const { filename, section_path, page, sourceUrl } = toSourceRecord(labels, hit, i + 1);
+                const key = `${filename}#${page ?? ''}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                references.push({ filename, section_path, page, sourceUrl });
+            }
+            return references.slice(0, 3);
+        } catch (error) {
+            this.log.warn(`[SAFETY] Could not look up safety references: ${error}`);
+            return [];
+        }
+    }
+
+    private safetyEvent(
+        params: QueryParams,
+        stage: 'question' | 'answer',
+        hits: SafetyHit[],
+        action: SafetyAction,
+        question: string,
+        answer?: string,
+    ) {
+        return {
+            at: new Date(),
+            user: params.user?.email,
+            companyId: params.user?.companyId,
+            sessionId: params.sessionId,
+            assets: [...new Set([...(params.vectorStoreIds ?? []), ...(params.assets ?? [])])],
+            stage,
+            topics: [...new Set(hits.map(h => h.topic))],
+            matches: hits.map(h => h.match),
+            action,
+            question,
+            ...(answer !== undefined && { answer }),
+        };
+    }
+
+  /**
+   * Loads the stored history of a session, then fits the conversation into
+   * the history share of the context budget: the newest turns stay
+   * verbatim, older ones are folded into a rolling summary (persisted on
+   * the session so each turn is summarized once). Also settles the answer
+   * language: the request's, else the session's preference, else the
+   * language of the question (or of earlier ones when it has none).
+   */
+  private async withHistory(params: QueryParams): Promise<QueryParams> {
+    let messages = params.messages ?? [];
+    let stored: {
+      turns: SessionTurn[];
+      memory?: SessionMemory;
+      language?: LanguagePreference;
+    } = { turns: [] };
+    if (params.sessionId) {
+      if (!params.user) {
+        throw new UnauthorizedException('Sessions need an authenticated user');
+      }
+      if (!messages.some((m) => m.role === 'user' && m.content?.trim())) {
+        throw new BadRequestException('A message is required');
+      }
+      stored = await this.sessions.history(
+        params.user,
+        params.sessionId,
+        this.sessionHistoryTurns,
+      );
+      messages = [
+        ...stored.turns.map(({ role, content }) => ({ role, content })),
+        ...messages,
+      ];
+    }
+    // empty requests are rejected further down
+    if (!messages.length) return params;
+    const preference = isLanguagePreference(params.languagePreference)
+      ? params.languagePreference
+      : stored.language;
+    const language = conversationLanguage(messages, preference);
+    this.log.log(`[LANGUAGE] Answering in ${language}`);
+
+    const budget = await this.contextBudget(
+      params.hostProvider,
+      params.vectorStoreIds,
+    );
+    const fitted = await this.fitHistory(
+      messages,
+      budget,
+      params.hostProvider,
+      stored.memory?.summary,
+    );
+
+    // the new question is never folded, so folded turns are stored ones
+    const lastFolded =
+      stored.turns[Math.min(fitted.folded, stored.turns.length) - 1];
+    if (params.sessionId && params.user && lastFolded && fitted.summary) {
+      await this.sessions
+        .saveMemory(params.user, params.sessionId, {
+          summary: fitted.summary,
+          until: lastFolded.at,
+        })
+        .catch((error) =>
+          this.log.warn(`[CONTEXT] Could not store session memory: ${error}`),
+        );
+    }
+
+    return {
+      ...params,
+      messages: fitted.messages,
+      language,
+      contextReport: {
+        models: budget.models,
+        contextTokens: budget.profile.contextTokens,
+        reservedTokens: budget.reserved,
+        history: fitted.report,
+      },
+    };
+  }
+
+    /**
+     * Token budget for the models a request may end up on. Failover can land
+     * on any provider of the chain, so the smallest window counts.
+     */
+    private async contextBudget(hostProvider?: ProviderName, vectorStoreIds: string[] = []): Promise<ContextBudget> {
+        const chain = await this.providers.chainModels(hostProvider);
+        const models = chain.map(c => c.model);
+        // LLM_CONTEXT_TOKENS wins, then what the provider reports, then the model name
+        const profiles = chain.map(c => modelProfile(c.model, { contextTokens: this.contextTokensOverride || c.contextTokens }));
+        const profile: ModelProfile = {
+            contextTokens: Math.min(...profiles.map(p => p.contextTokens)),
+            charsPerToken: Math.min(...profiles.map(p => p.charsPerToken)),
+        };
+        const system = this.systemPrompt(vectorStoreIds).content + (this.agentEnabled ? AGENT_INSTRUCTIONS : '');
+        const reserved = this.answerMaxTokens + MESSAGE_OVERHEAD_TOKENS + estimateTokens(system, profile);
+        const available = Math.max(0, profile.contextTokens - reserved);
+        return { models, profile, reserved, available, historyBudget: Math.floor(available * this.contextHistoryShare) };
+    }
+
+    private async fitHistory(
+        messages: ChatMsg[],
+        budget: ContextBudget,
+        hostProvider?: ProviderName,
+        memory?: string,
+    ): Promise<{ messages: ChatMsg[]; folded: number; summary?: string; report: ContextReport['history'] }> {
+        const { profile } = budget;
+        let { older, recent } = splitHistory(messages, budget.historyBudget, profile);
+        // a summary message will take room too
+        if (older.length || memory) {
+            ({ older, recent } = splitHistory(messages, Math.max(0, budget.historyBudget - this.contextSummaryTokens), profile));
+        }
+
+        let summary = memory;
+        if (older.length) {
+            this.log.log(`[CONTEXT] Summarizing ${older.length} older turn(s), keeping ${recent.length} verbatim`);
+            const merged = await this.summarizeTurns(memory, older, budget, hostProvider);
+            if (merged) summary = merged;
+            else this.log.warn(`[CONTEXT] Summary failed, dropping ${older.length} older turn(s)`);
+        }
+
+        const out: ChatMsg[] = summary
+            ? [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }, ...recent]
+            : recent;
+        return {
+            messages: out,
+            folded: older.length,
+            summary: summary !== memory ? summary : undefined,
+            report: {
+                turns: messages.length,
+                kept: recent.length,
+                summarized: older.length,
+                summaryTokens: estimateTokens(summary, profile),
+                tokens: messagesTokens(out, profile),
+            },
+        };
+    }
+
+    /** Merges older turns into the rolling memory; undefined when the LLM call fails. */
+    private async summarizeTurns(
+        previous: string | undefined,
+        turns: ChatMsg[],
+        budget: ContextBudget,
+        hostProvider?: ProviderName,
+    ): Promise<string | undefined> {
+        const transcript = turns.map(t => `${t.role === 'user' ? 'User' : 'XANA'}: ${t.content}`).join('\n\n');
+        try {
+            const { completion, provider } = await this.providers.chatWithFailover({
+                messages: [
+                    {
+                        role: 'system',
+                        content:
+                            `You keep the running memory of a support conversation between a machine operator and XANA. ` +
+                            `Merge the previous memory and the new turns into short bullet points (at most ${Math.round(this.contextSummaryTokens * 0.6)} words). ` +
+                            `Keep asset names and IDs, part numbers, parameter values, alerts, decisions and open questions; drop greetings and repetition. ` +
+                            `Output only the bullets.`,
+                    },
+                    {
+                        role: 'user',
+                        content: `Previous memory:\n${previous || '(none)'}\n\nNew turns:\n${truncateToTokens(transcript, budget.available, budget.profile)}`,
+                    },
+                ],
+                temperature: 0.1,
+                maxTokens: this.contextSummaryTokens,
+            }, hostProvider);
+            this.log.log(`[CONTEXT] Conversation summary by LLM provider: ${provider}`);
+            return completion.choices[0]?.message?.content?.trim() || undefined;
+        } catch (error) {
+            this.log.warn(`[CONTEXT] Summarizing failed: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Checks the values, part numbers and menu paths of `reply` against the
+     * prompt it was written from. Unsupported ones trigger one regeneration
+     * with a stricter instruction (GROUNDEDNESS_CHECK=regenerate); whatever
+     * is still unsupported is marked in the reply.
+     */
+    private async verifyGrounding(
+        reply: string,
+        prompt: ChatMsg[],
+        regenerate: (messages: ChatMsg[]) => Promise<string | null | undefined>,
+        language: Language = DEFAULT_LANGUAGE,
+    ): Promise<{ reply: string; groundedness?: GroundednessReport }> {
+        if (this.groundednessMode === 'off' || !reply.trim()) return { reply };
+        const evidence = prompt.map(m => m.content ?? '').join('\n');
+        let check = checkGroundedness(reply, evidence);
+        let regenerated = false;
+
+        if (check.unsupported.length && this.groundednessMode === 'regenerate') {
+            const list = check.unsupported.map(c => c.text).join(', ');
+            this.log.warn(`[GROUNDEDNESS] Not in the context: ${list}; regenerating`);
+            try {
+                const retry = (await regenerate([
+                    ...prompt,
+                    { role: 'assistant', content: reply },
+                    {
+                        role: 'user',
+                        content:
+                            `Your answer states ${list}, which do not appear in the manual excerpts, data or conversation above. ` +
+                            `Rewrite the answer using only values, part numbers and menu paths that appear there; where they are missing, say "${cannedMessages(language).notEnoughData}" instead of giving one. ` +
+                            `Keep the [n] citations. Output only the answer.`,
+                    },
+                ]))?.trim();
+                const recheck = retry ? checkGroundedness(retry, evidence) : undefined;
+                if (retry && recheck && recheck.unsupported.length < check.unsupported.length) {
+                    reply = retry;
+                    check = recheck;
+                    regenerated = true;
+                }
+            } catch (error) {
+                this.log.warn(`[GROUNDEDNESS] Regeneration failed: ${error}`);
             }
+        }
+
+        const annotated = check.unsupported.length > 0;
+        if (annotated) {
+            this.log.warn(`[GROUNDEDNESS] Marked as unverified: ${check.unsupported.map(c => c.text).join(', ')}`);
+        }
+        return {
+            reply: annotateUnsupported(reply, check.unsupported, language),
+            groundedness: {
+                score: Math.round(check.score * 100) / 100,
+                checked: check.checked,
+                unsupported: check.unsupported.map(c => c.text),
+                regenerated,
+                annotated,
+            },
+        };
+    }
+
+    private async regenerate(messages: ChatMsg[], hostProvider?: ProviderName): Promise<string | undefined> {
+        const { completion, provider } = await this.providers.chatWithFailover({
+            messages,
+            temperature: 0.1,
+            maxTokens: this.answerMaxTokens,
+        }, hostProvider);
+        this.log.log(`[GROUNDEDNESS] Regenerated by LLM provider: ${provider}`);
+        return completion.choices[0]?.message?.content ?? undefined;
+    }
+
+    /** Sources the reply cites by [n]; the top excerpts when it cites none. */
+    private citedSources(reply: string, sources: SourceRecord[]): SourceRecord[] {
+        const { sources: cited, unknown } = citeSources(reply, sources);
+        if (unknown.length) {
+            this.log.warn(`[CITATIONS] Reply cites [${unknown.join('], [')}] but only ${sources.length} excerpt(s) were given`);
+        }
+        return cited;
+    }
+
+    /** Stores the new question and the reply; a failure here never fails the answer. */
+    private async recordSessionTurn(params: QueryParams, payload: Record<string, any>): Promise<Record<string, any>> {
+        if (!params.sessionId || !params.user) return payload;
+        const { reply, message, summary, explanation, charts, alerts, alertGroups, sources, provider } = payload as Record<string, unknown>;
+        const data = Object.fromEntries(
+            Object.entries({ charts, alerts, alertGroups, sources, provider }).filter(([, v]) => v !== undefined && v !== null),
+        );
+        try {
+            await this.sessions.appendTurns(params.user, params.sessionId, {
+                turns: [
+                    ...params.messages
+                        .filter(m => m.role === 'user')
+                        .map(m => ({ role: 'user' as const, content: m.content })),
+                    { role: 'assistant', content: [reply, message].find((v): v is string => typeof v === 'string') ?? [explanation, summary].filter(Boolean).join('\n\n'), data },
+                ],
+            });
+        } catch (error) {
+            this.log.warn(`[SESSION] Could not store turn in ${params.sessionId}: ${error}`);
+        }
+        return { ...payload, sessionId: params.sessionId };
+    }
+
+    private async answer(params: QueryParams): Promise<Record<string, any>> {
+        let detectors = true;
+        if (this.agentEnabled) {
+            try {
+                const steps = this.runAgent(params);
+                let step = await steps.next();
+                while (!step.done) step = await steps.next();
+                if (step.value) return step.value;
+                detectors = false;
+            } catch (error) {
+                if (error instanceof HttpException) throw error;
+                this.log.warn(`[AGENT] Tool loop failed, falling back to the intent pipeline: ${error}`);
+            }
+        }
+
+        const prepared = await this.prepareQuery(params, detectors);
+        if (prepared.kind === 'data') {
+            return prepared.payload;
+        }
+        const { hostProvider, fullHistory, sources, contextReport, searchQuery } = prepared;
+
+        try {
+            const { completion, provider, attempts } = await this.providers.chatWithFailover({
+                messages: fullHistory,
+                temperature: 0.3,
+                maxTokens: this.answerMaxTokens,
+            }, hostProvider);
+            this.log.log(`[MAIN_QUERY] Answered by ${provider}${attempts.length ? ` after ${attempts.length} failed attempt(s)` : ''}`);
+            this.log.debug(`[MAIN_QUERY] ${provider} raw answer: ${JSON.stringify(completion)}`);
             // const chosenId = await this.routeVectorStoreId(questionForRouter, ids, assets);
             // ids = [chosenId];
+            const { reply, groundedness } = await this.verifyGrounding(
+                completion.choices[0].message.content ?? '',
+                fullHistory,
+                retry => this.regenerate(retry, hostProvider),
+                params.language,
+            );
 
             return {
-                reply: completion.choices[0].message.content,
-                sources: sources.slice(0, 3),
+                reply,
+                groundedness,
+                sources: this.citedSources(reply, sources),
+                provider,
+                contextReport,
+                ...(params.debug && { debug: { searchQuery } }),
             };
         } catch (error) {
             this.log.error('LLM call failed:', error);
             throw new InternalServerErrorException('Failed to generate response');
         }
     }
+
+    /**
+     * Streaming variant of handleQuery. Yields a `retrieval` event once the
+     * context is ready, `token` events while the model is generating, then
+     * `sources` and a final `done` event carrying the same payload that
+     * handleQuery would have returned. Chart and alert answers are not
+     * generated by the LLM and arrive as a single `done` event. With the
+     * tool loop, `tool` events report each call and the reply is streamed
+     * once the model has finished calling tools. Tokens are released a
+     * sentence at a time after passing the safety guardrail; an unsafe draft
+     * stops there and `done` carries the rewritten or refused reply. The reply in `done`
+     * is the checked one and may differ from the streamed tokens.
+     */
+    async *streamQuery(params: QueryParams): AsyncGenerator<QueryStreamEvent> {
+        const resolved = await this.withHistory(params);
+        const blocked = await this.screenQuestion(resolved);
+        if (blocked) {
+            yield { event: 'token', data: { delta: blocked.reply } };
+            yield { event: 'done', data: await this.recordSessionTurn(params, { ...blocked, language: resolved.language }) };
+            return;
+        }
+        // tokens go out a sentence at a time once they have passed the
+        // guardrail; after a hit the rest is held back for the guarded reply
+        let draft = '';
+        let shown = 0;
+        let held = false;
+        for await (const evt of this.answerStream(resolved)) {
+            if (evt.event === 'token') {
+                if (held) continue;
+                draft += evt.data.delta;
+                const end = releasableLength(draft);
+                if (end === null) {
+                    held = true;
+                    this.log.warn('[SAFETY] Holding back the streamed answer for the guardrail');
+                } else if (end > shown) {
+                    yield { event: 'token', data: { delta: draft.slice(shown, end) } };
+                    shown = end;
+                }
+                continue;
+            }
+            if (evt.event === 'done') {
+                const end = held ? null : releasableLength(draft, true);
+                if (end !== null && end > shown) {
+                    yield { event: 'token', data: { delta: draft.slice(shown, end) } };
+                }
+                yield { event: 'done', data: await this.recordSessionTurn(params, { ...(await this.guardAnswer(resolved, evt.data)), language: resolved.language }) };
+                continue;
+            }
+            yield evt;
+        }
+    }
+
+  private async *answerStream(
+    params: QueryParams,
+  ): AsyncGenerator<QueryStreamEvent> {
+    let detectors = true;
+    if (this.agentEnabled) {
+      let payload: Record<string, any> | null = null;
+      let streamed = false;
+      try {
+        const steps = this.runAgent(params);
+        let step = await steps.next();
+        while (!step.done) {
+          streamed ||= step.value.event === 'token';
+          yield step.value;
+          step = await steps.next();
+        }
+        payload = step.value;
+        // the provider ignores tools: plain retrieval, not the intent pipeline
+        detectors = payload !== null;
+      } catch (error) {
+        if (error instanceof HttpException) throw error;
+        // part of the reply is already on screen: no second answer
+        if (streamed) {
+          this.log.error('Agent stream failed:', error);
+          yield {
+            event: 'error',
+            data: { message: 'Failed to generate response' },
+          };
+          return;
+        }
+        this.log.warn(
+          `[AGENT] Tool loop failed, falling back to the intent pipeline: ${error}`,
+        );
+      }
+      if (payload) {
+        yield {
+          event: 'sources',
+          data: { sources: payload.sources as SourceRecord[] },
+        };
+        yield { event: 'done', data: payload };
+        return;
+      }
+    }
+
+    const prepared = await this.prepareQuery(params, detectors);
+    if (prepared.kind === 'data') {
+      yield { event: 'done', data: prepared.payload };
+      return;
+    }
+    const { hostProvider, fullHistory, sources, contextReport, searchQuery } =
+      prepared;
+    yield { event: 'retrieval', data: { sources: sources.length } };
+
+    let reply = '';
+    let provider: string;
+    try {
+      const opened = await this.providers.streamWithFailover(
+        {
+          messages: fullHistory,
+          temperature: 0.3,
+          maxTokens: this.answerMaxTokens,
+        },
+        hostProvider,
+      );
+      provider = opened.provider;
+      this.log.log(
+        `[MAIN_QUERY] Streaming main query completion from ${provider}`,
+      );
+
+      for await (const delta of opened.stream) {
+        reply += delta;
+        yield { event: 'token', data: { delta } };
+      }
+    } catch (error) {
+      this.log.error('LLM stream failed:', error);
+      yield {
+        event: 'error',
+        data: { message: 'Failed to generate response' },
+      };
+      return;
+    }
+
+    // the verified reply replaces the streamed draft in `done`
+    const verified = await this.verifyGrounding(
+      reply,
+      fullHistory,
+      (retry) => this.regenerate(retry, hostProvider),
+      params.language,
+    );
+    const topSources = this.citedSources(verified.reply, sources);
+    yield { event: 'sources', data: { sources: topSources } };
+    yield {
+      event: 'done',
+      data: {
+        reply: verified.reply,
+        groundedness: verified.groundedness,
+        sources: topSources,
+        provider,
+        contextReport,
+        ...(params.debug && { debug: { searchQuery } }),
+      },
+    };
+  }
 }
@@ -0,0 +1,166 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  classifySafety,
+  isBlocking,
+  isSafetyReference,
+  refusalMessage,
+  releasableLength,
+  safetyNotice,
+} from './guardrail';
+
+describe('guardrail', () => {
+  const topics = (text: string) => classifySafety(text).map((h) => h.topic);
+  const answerTopics = (text: string) =>
+    classifySafety(text, 'answer').map((h) => h.topic);
+
+  it('classifies bypass, E-Stop and energised-work questions', () => {
+    expect(topics('How can I bypass the door interlock on the press?')).toEqual(
+      ['interlock_bypass'],
+    );
+    expect(topics('Can the light curtain be bridged for setup?')).toEqual([
+      'interlock_bypass',
+    ]);
+    expect(topics('How do I disable the E-Stop during testing?')).toEqual([
+      'estop_disable',
+    ]);
+    expect(
+      topics('Can I replace the belt while the machine is running?'),
+    ).toEqual(['energised_work']);
+    expect(topics('What is the max spindle speed?')).toEqual([]);
+    expect(topics('How do I remove the guard to replace the belt?')).toEqual(
+      [],
+    );
+  });
+
+  it('classifies German and Dutch questions', () => {
+    expect(topics('Wie überbrücke ich die Schutztür an der Presse?')).toEqual([
+      'interlock_bypass',
+    ]);
+    expect(
+      topics('Kan ik de noodstop uitschakelen tijdens het testen?'),
+    ).toEqual(['estop_disable']);
+    expect(
+      topics('Darf ich den Riemen im laufenden Betrieb wechseln?'),
+    ).toEqual(['energised_work']);
+    expect(answerTopics('Die Schutztür niemals überbrücken.')).toEqual([]);
+    expect(topics('Wie hoch ist die maximale Drehzahl?')).toEqual([]);
+  });
+
+  it('ignores negated mentions in answers', () => {
+    expect(
+      answerTopics(
+        'Never bypass the interlock. Do not reach into the machine while it is running.',
+      ),
+    ).toEqual([]);
+    expect(answerTopics('Bridge the door switch with a jumper wire.')).toEqual([
+      'interlock_bypass',
+    ]);
+  });
+
+  it('screens negated phrasings in questions', () => {
+    expect(topics("Why can't I just bypass the door interlock?")).toEqual([
+      'interlock_bypass',
+    ]);
+    expect(topics('Is there no way to jumper the safety door switch?')).toEqual(
+      ['interlock_bypass'],
+    );
+    expect(
+      isBlocking(classifySafety("Why can't I just bypass the door interlock?")),
+    ).toBe(true);
+  });
+
+  it('answers questions about restoring a defeated device', () => {
+    for (const question of [
+      'The interlock was bypassed by the previous shift, how do I restore it?',
+      'The safety door switch is disabled after the firmware update, how do I fix it?',
+      'Die Schutztür ist überbrückt, wie repariere ich das?',
+    ]) {
+      const hits = classifySafety(question);
+      // still a safety topic, so the answer carries the LOTO notice
+      expect(hits).toHaveLength(1);
+      expect(hits[0].mention).toBe(true);
+      expect(isBlocking(hits)).toBe(false);
+    }
+    expect(
+      classifySafety('How do I disable the limit switch warning on the HMI?'),
+    ).toEqual([]);
+    for (const question of [
+      'Can the light curtain be bridged for setup?',
+      'Kann die Schutztür überbrückt werden?',
+      'How do I bypass the interlock and reset the machine?',
+    ]) {
+      expect(isBlocking(classifySafety(question))).toBe(true);
+    }
+  });
+
+  it('keeps separate clauses apart', () => {
+    expect(
+      answerTopics('First press the E-Stop, then disable the spindle drive.'),
+    ).toEqual([]);
+    expect(
+      answerTopics('Press the E-Stop and disable the spindle drive.'),
+    ).toEqual([]);
+    expect(
+      releasableLength(
+        'First press the E-Stop, then disable the spindle drive.',
+        true,
+      ),
+    ).toBe(55);
+    expect(answerTopics('Disable the E-Stop for the test run.')).toEqual([
+      'estop_disable',
+    ]);
+  });
+
+  it('blocks only bypass topics', () => {
+    expect(isBlocking(classifySafety('disable the emergency stop'))).toBe(true);
+    expect(isBlocking(classifySafety('clean the rollers while running'))).toBe(
+      false,
+    );
+    expect(
+      refusalMessage(classifySafety('override the safety relay')),
+    ).toContain("I can't help with bypassing guards or interlocks");
+    expect(
+      refusalMessage(classifySafety('Not-Aus deaktivieren'), 'de'),
+    ).toContain('Bei dem Außerkraftsetzen des Not-Halts kann ich nicht helfen');
+  });
+
+  it('releases streamed text sentence by sentence until it trips', () => {
+    expect(releasableLength('Stop the machine. Then open')).toBe(17);
+    expect(releasableLength('Stop the machine. Then open', true)).toBe(27);
+    expect(
+      releasableLength('Stop the machine. Bridge the door switch.'),
+    ).toBeNull();
+  });
+
+  it('builds the safety notice from references', () => {
+    expect(isSafetyReference('5.1 Lockout/Tagout procedure')).toBe(true);
+    expect(isSafetyReference('Spindle lubrication')).toBe(false);
+    expect(
+      safetyNotice([
+        {
+          filename: 'press.pdf',
+          section_path: '2 Safety',
+          page: 7,
+          sourceUrl: 'https://docs.example.com/press.pdf',
+        },
+      ]),
+    ).toContain(
+      '- [press.pdf › 2 Safety, p. 7](https://docs.example.com/press.pdf#page=7)',
+    );
+  });
+});
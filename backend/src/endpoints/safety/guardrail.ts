@@ -0,0 +1,311 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+/**
+ * Safety guardrails for questions and answers: bypassing guards or
+ * interlocks, disabling the E-Stop and working on energised equipment.
+ * Matching is by phrase so it works the same for every LLM provider. In
+ * answers, negated mentions ("never bypass the interlock") do not count;
+ * in questions they do ("why can't I just bypass the interlock?"), but a
+ * question that describes a defeated device ("the interlock was bypassed")
+ * or asks to restore it is only a mention, answered with the LOTO notice
+ * instead of being refused. English,
+ * German and Dutch phrasings are covered; umlauts are folded (ü → ue)
+ * before matching so the patterns stay ASCII.
+ */
+
+import type { Language } from '../query/context/language';
+
+export type SafetyTopic =
+  | 'interlock_bypass'
+  | 'estop_disable'
+  | 'energised_work';
+
+export interface SafetyHit {
+  topic: SafetyTopic;
+  match: string;
+  // a question describing or repairing a defeated device, not asking to defeat it
+  mention?: boolean;
+}
+
+// questions on these are refused outright; energised work is answered with LOTO references
+export const BLOCKING_TOPICS: readonly SafetyTopic[] = [
+  'interlock_bypass',
+  'estop_disable',
+];
+
+/** Safety rules of the system prompt. */
+export const SAFETY_INSTRUCTION =
+  'Safety first: never suggest bypassing interlocks/guards or disabling the E-Stop, never suggest working on energised or running equipment; reference E-Stop and LOTO when relevant.';
+
+const DEFEAT = String.raw`bypass(?:ing|ed)?|overrid(?:e|ing|den)|defeat(?:ing|ed)?|jumper(?:ing|ed)?|bridg(?:e|ing|ed)|disabl(?:e|ing|ed)|deactivat(?:e|ing|ed)|tap(?:e|ing) (?:down|over)|short[- ]circuit(?:ing)?|cheat(?:ing)?|trick(?:ing)?|(?:ueber)?brueck(?:e|en|t|te)?|gebrueckt|umgeh(?:e|en|t)?|umgangen|ausser kraft (?:setzen|gesetzt)|deaktivier(?:e|en|t|te)?|overbrug(?:gen|t|d)?|omzeil(?:en|t|d)?|deactive(?:er|ren)|gedeactiveerd|uitschakelen|uitgeschakeld|buiten werking`;
+const GUARD = String.raw`interlocks?|(?:safety )?guards?|guarding|safety (?:door|gate|switch|relay|circuit|sensor|fence|plc)s?|door (?:switch|contact|interlock)s?|light curtains?|two[- ]hand (?:control|button)s?|enabling (?:switch|device)s?|limit switch(?:es)?|schutztuer(?:en)?|schutzgitter|schutzhaube|schutzeinrichtung(?:en)?|sicherheits(?:schalter|tuer|tueren)|tuerschalter|verriegelung(?:en)?|lichtvorhang|lichtgitter|zweihandbedienung|beveiliging(?:en)?|vergrendeling(?:en)?|veiligheids(?:schakelaars?|deur(?:en)?)|deurschakelaars?|lichtscherm(?:en)?|lichtgordijn(?:en)?|afscherming(?:en)?`;
+const ESTOP = String.raw`e-?stops?|emergency[- ]stops?|emergency[- ]off|emergency stop buttons?|not-?aus(?:schalter|taster)?|not-?halt|noodstop(?:pen|knop)?|nood-?uit`;
+const WORK = String.raw`repair|replac(?:e|ing)|chang(?:e|ing)|clean(?:ing)?|open(?:ing)?|reach(?:ing)? (?:in|into)|adjust(?:ing)?|work(?:ing)? on|maintain(?:ing)?|fix(?:ing)?|clear(?:ing)? (?:a |the )?jam|touch(?:ing)?|servic(?:e|ing)|reparier(?:e|en|t)|(?:aus)?tauschen|wechseln|reinigen|oeffnen|arbeiten an|repareren|vervangen|schoonmaken|openen|werken aan`;
+// what a device shows rather than the device: "disable the limit switch warning"
+const NOT_DEVICE = String.raw`(?!\s+(?:warnings?|messages?|alarms?|notifications?|notices?|pop-?ups?|indicators?|displays?|lamps?|warnung(?:en)?|meldung(?:en)?|hinweis(?:e)?|anzeige|melding(?:en)?|waarschuwing(?:en)?)\b)`;
+// within one clause: no comma, semicolon or "then"/"and" between verb and device
+const CLAUSE = String.raw`(?:(?!\b(?:then|and|afterwards|dann|und|danach|en|dan|daarna)\b)[^.!?\n,;]){0,50}?`;
+const LIVE = String.raw`while (?:it(?:'s| is) |the machine is |the \w+ is )?(?:running|powered|energi[sz]ed|live|in operation|under (?:power|voltage|load|pressure))|(?:live|energi[sz]ed|under (?:power|voltage|pressure))|without (?:lock(?:ing)?[- ]?out|LOTO|isolating|switching (?:it )?off|shutting (?:it )?down|de-?energi[sz]ing|tagging out)|unter spannung|im (?:laufenden )?betrieb|bei laufender maschine|ohne (?:abzuschalten|freizuschalten|freischalten|LOTO)|onder spanning|tijdens (?:bedrijf|het draaien)|terwijl (?:de machine|hij|het) draait|zonder (?:uit te schakelen|LOTO)`;
+
+// topic → "verb … object" in either order within one clause, at most 50 characters apart
+const PATTERNS: Array<[SafetyTopic, RegExp]> = [
+  [
+    'interlock_bypass',
+    new RegExp(
+      String.raw`\b(?:${DEFEAT})\b${CLAUSE}\b(?:${GUARD})\b${NOT_DEVICE}`,
+      'gi',
+    ),
+  ],
+  [
+    'interlock_bypass',
+    new RegExp(
+      String.raw`\b(?:${GUARD})\b${NOT_DEVICE}${CLAUSE}\b(?:${DEFEAT})\b`,
+      'gi',
+    ),
+  ],
+  [
+    'estop_disable',
+    new RegExp(
+      String.raw`\b(?:${DEFEAT}|ignor(?:e|ing))\b${CLAUSE}\b(?:${ESTOP})\b${NOT_DEVICE}`,
+      'gi',
+    ),
+  ],
+  [
+    'estop_disable',
+    new RegExp(
+      String.raw`\b(?:${ESTOP})\b${NOT_DEVICE}${CLAUSE}\b(?:${DEFEAT})\b`,
+      'gi',
+    ),
+  ],
+  [
+    'energised_work',
+    new RegExp(String.raw`\b(?:${WORK})\b[^.!?\n]{0,60}?(?:${LIVE})\b`, 'gi'),
+  ],
+  [
+    'energised_work',
+    new RegExp(String.raw`(?:${LIVE})\b[^.!?\n]{0,60}?\b(?:${WORK})\b`, 'gi'),
+  ],
+];
+
+const NEGATION =
+  /\b(?:never|not(?![- ]?(?:aus|halt))|no|don't|do not|must not|mustn't|cannot|can't|avoid|prohibited|forbidden|without first|before|nie|niemals|nicht|kein(?:e|en)?|verboten|vor dem|nooit|niet|geen|verboden|voordat)\b[^.!?\n]{0,30}$/i;
+// "die Schutztür niemals überbrücken", "the guard must never be bypassed"
+const INNER_NEGATION =
+  /\b(?:never|not(?![- ]?(?:aus|halt))|don't|must not|mustn't|cannot|can't|nie|niemals|nicht|nooit|niet)\b/i;
+
+const DEFEAT_RE = new RegExp(
+  String.raw`\b(?:${DEFEAT}|ignor(?:e|ing))\b`,
+  'gi',
+);
+// the device is already defeated: "was bypassed", "ist überbrückt", "is uitgeschakeld"
+const PARTICIPLE =
+  /^(?:bypassed|overridden|defeated|jumpered|bridged|disabled|deactivated|ignored|(?:ueber)?brueckt|gebrueckt|umgangen|ausser kraft gesetzt|deaktiviert|overbrug[dt]|omzeil[dt]|gedeactiveerd|uitgeschakeld|buiten werking)$/i;
+const STATE_BEFORE =
+  /(?:\b(?:is|isn't|was|wasn't|are|aren't|were|weren't|been|got|gets|remains|stays|seems|ist|war|wurde|wurden|sind|waren|bleibt|zijn|werd|blijft)\b(?:\s+\w+)?|\b(?:the|a|an|die|der|das|den|de|het|een))\s+$/i;
+// "can it be bypassed", "überbrückt werden": asking for it after all
+const PASSIVE_REQUEST = /^\s+(?:werden|worden)\b/i;
+const RESTORE =
+  /\b(?:restor(?:e|ing)|repair(?:ing)?|fix(?:ing)?|reset(?:ting)?|re-?enabl(?:e|ing)|re-?activat(?:e|ing)|reinstat(?:e|ing)|put (?:it |them )?back|working again|troubleshoot(?:ing)?|wiederherstell\w*|reparier\w*|instand ?setz\w*|zuruecksetzen|wieder (?:aktivieren|einschalten|in betrieb)|herstel(?:len)?|repareren|resetten|opnieuw (?:activeren|inschakelen))\b/i;
+
+/**
+ * Whether a question's hit describes a device that is already defeated
+ * ("was bypassed", "the disabled E-Stop", "interlock bypassed, how do I
+ * restore it?") rather than asking how to defeat it.
+ */
+function isMention(text: string, index: number, match: string): boolean {
+  const verbs = [...match.matchAll(DEFEAT_RE)];
+  // the verb of "verb … device" leads the match, that of "device … verb" ends it
+  const verb = verbs[0]?.index === 0 ? verbs[0] : verbs[verbs.length - 1];
+  if (!verb || !PARTICIPLE.test(verb[0])) return false;
+  const at = index + verb.index;
+  return (
+    (STATE_BEFORE.test(text.slice(Math.max(0, at - 40), at)) ||
+      RESTORE.test(text)) &&
+    !PASSIVE_REQUEST.test(text.slice(at + verb[0].length))
+  );
+}
+
+// chunks worth citing next to a safety-relevant answer
+const REFERENCE_RE =
+  /\b(?:lock[- ]?out|tag[- ]?out|LOTO|e-?stop|emergency[- ]stop|isolat(?:e|ion|ing)|de-?energi[sz]|zero energy|interlock|freischalt\w*|gegen wiedereinschalten|spannungsfrei|not-?aus|not-?halt|noodstop|spanningsvrij|vergrendel\w*)\b/i;
+
+function foldUmlauts(text: string): string {
+  return text
+    .replace(/[äÄ]/g, 'ae')
+    .replace(/[öÖ]/g, 'oe')
+    .replace(/[üÜ]/g, 'ue')
+    .replace(/ß/g, 'ss');
+}
+
+/**
+ * Mentions of safety-critical actions in `input`. For answers, negated
+ * ones are skipped; a question is screened on every mention, and hits that
+ * describe or repair a defeated device are flagged as `mention`.
+ */
+export function classifySafety(
+  input: string,
+  stage: 'question' | 'answer' = 'question',
+): SafetyHit[] {
+  const text = foldUmlauts(input);
+  const hits = new Map<SafetyTopic, SafetyHit>();
+  for (const [topic, re] of PATTERNS) {
+    if (hits.has(topic)) continue;
+    for (const m of text.matchAll(re)) {
+      const before = text.slice(Math.max(0, m.index - 40), m.index);
+      if (
+        stage === 'answer' &&
+        (NEGATION.test(before) || INNER_NEGATION.test(m[0]))
+      ) {
+        continue;
+      }
+      const mention =
+        stage === 'question' &&
+        BLOCKING_TOPICS.includes(topic) &&
+        isMention(text, m.index, m[0]);
+      hits.set(topic, { topic, match: m[0], ...(mention ? { mention } : {}) });
+      break;
+    }
+  }
+  return [...hits.values()];
+}
+
+/**
+ * How much of a streamed answer `draft` may be shown: everything up to its
+ * last sentence break (or all of it once `complete`), as long as that part
+ * passes the guardrail. Phrases never span a sentence break, so released
+ * text cannot turn unsafe later. Null once it has tripped; the rest is held
+ * back for the guarded reply.
+ */
+export function releasableLength(
+  draft: string,
+  complete = false,
+): number | null {
+  const end = complete ? draft.length : lastBreak(draft);
+  return classifySafety(draft.slice(0, end), 'answer').length ? null : end;
+}
+
+function lastBreak(text: string): number {
+  for (let i = text.length - 1; i >= 0; i--) {
+    if ('.!?\n'.includes(text[i])) return i + 1;
+  }
+  return 0;
+}
+
+/** Whether a question is refused: it asks how to defeat a safety device. */
+export function isBlocking(hits: SafetyHit[]): boolean {
+  return hits.some((h) => BLOCKING_TOPICS.includes(h.topic) && !h.mention);
+}
+
+/** Whether a retrieved excerpt is a LOTO / E-Stop / isolation reference. */
+export function isSafetyReference(text: string): boolean {
+  return REFERENCE_RE.test(foldUmlauts(text));
+}
+
+const TOPIC_LABELS: Record<Language, Record<SafetyTopic, string>> = {
+  en: {
+    interlock_bypass: 'bypassing guards or interlocks',
+    estop_disable: 'disabling the emergency stop',
+    energised_work: 'working on energised or running equipment',
+  },
+  de: {
+    interlock_bypass:
+      'dem Überbrücken von Schutzeinrichtungen oder Verriegelungen',
+    estop_disable: 'dem Außerkraftsetzen des Not-Halts',
+    energised_work: 'Arbeiten an Anlagen unter Spannung oder in Betrieb',
+  },
+  nl: {
+    interlock_bypass: 'het overbruggen van beveiligingen of vergrendelingen',
+    estop_disable: 'het uitschakelen van de noodstop',
+    energised_work: 'werken aan installaties onder spanning of in bedrijf',
+  },
+};
+
+const REFUSAL: Record<Language, (topics: string) => string> = {
+  en: (topics) =>
+    `I can't help with ${topics || 'this'}: safety devices protect the people at the machine and must stay effective. ` +
+    `If a guard, interlock or E-Stop is faulty or stops production, stop the machine, apply lockout/tagout (LOTO) and have the device repaired by an authorised person. ` +
+    `I can help you find the cause of the fault or the repair procedure in the manual.`,
+  de: (topics) =>
+    `Bei ${topics || 'diesem Thema'} kann ich nicht helfen: Schutzeinrichtungen schützen die Menschen an der Maschine und müssen wirksam bleiben. ` +
+    `Wenn eine Schutzeinrichtung, Verriegelung oder der Not-Halt defekt ist oder die Produktion stoppt, halten Sie die Maschine an, wenden Sie Lockout/Tagout (LOTO) an und lassen Sie das Gerät von einer befugten Person instand setzen. ` +
+    `Ich helfe Ihnen gern, die Fehlerursache oder das Reparaturverfahren im Handbuch zu finden.`,
+  nl: (topics) =>
+    `Ik kan niet helpen met ${topics || 'dit'}: veiligheidsvoorzieningen beschermen de mensen bij de machine en moeten werkzaam blijven. ` +
+    `Als een beveiliging, vergrendeling of noodstop defect is of de productie stillegt, stop dan de machine, pas lockout/tagout (LOTO) toe en laat de voorziening door een bevoegde persoon repareren. ` +
+    `Ik help u graag de oorzaak van de storing of de reparatieprocedure in de handleiding te vinden.`,
+};
+
+const AND: Record<Language, string> = { en: ' and ', de: ' und ', nl: ' en ' };
+
+/** Reply for questions and answers that cannot be given. */
+export function refusalMessage(
+  hits: SafetyHit[],
+  language: Language = 'en',
+): string {
+  const topics = [
+    ...new Set(hits.map((h) => TOPIC_LABELS[language][h.topic])),
+  ].join(AND[language]);
+  return REFUSAL[language](topics);
+}
+
+export type SafetyReference = {
+  filename: string;
+  section_path?: string;
+  page?: number;
+  sourceUrl?: string;
+};
+
+const NOTICE: Record<
+  Language,
+  { heading: string; text: string; page: string }
+> = {
+  en: {
+    heading: 'Safety',
+    text: 'Stop the machine and apply lockout/tagout (LOTO) before any work on it; keep guards, interlocks and the E-Stop effective.',
+    page: 'p.',
+  },
+  de: {
+    heading: 'Sicherheit',
+    text: 'Halten Sie die Maschine an und wenden Sie vor jeder Arbeit daran Lockout/Tagout (LOTO) an; Schutzeinrichtungen, Verriegelungen und der Not-Halt müssen wirksam bleiben.',
+    page: 'S.',
+  },
+  nl: {
+    heading: 'Veiligheid',
+    text: 'Stop de machine en pas lockout/tagout (LOTO) toe voordat u eraan werkt; beveiligingen, vergrendelingen en de noodstop moeten werkzaam blijven.',
+    page: 'p.',
+  },
+};
+
+/** "Safety" section with the LOTO / E-Stop references, appended to answers. */
+export function safetyNotice(
+  references: SafetyReference[],
+  language: Language = 'en',
+): string {
+  const notice = NOTICE[language];
+  const lines = references.map((r) => {
+    const label = `${r.filename}${r.section_path ? ` › ${r.section_path}` : ''}${r.page ? `, ${notice.page} ${r.page}` : ''}`;
+    const href = r.sourceUrl
+      ? `${r.sourceUrl}${r.page ? `#page=${r.page}` : ''}`
+      : undefined;
+    return `- ${href ? `[${label}](${href})` : label}`;
+  });
+  return (
+    `\n\n### ⚠️ ${notice.heading}\n` +
+    notice.text +
+    (lines.length ? `\n\n${lines.join('\n')}` : '')
+  );
+}
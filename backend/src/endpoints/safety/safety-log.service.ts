@@ -0,0 +1,96 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Injectable, Logger } from '@nestjs/common';
+import { MongoClient } from 'mongodb';
+import type { SafetyTopic } from './guardrail';
+
+export type SafetyAction = 'blocked' | 'rewritten' | 'refused' | 'noted';
+
+export interface SafetyEventRecord {
+  at: Date;
+  user?: string;
+  companyId?: string;
+  sessionId?: string;
+  assets: string[];
+  // where the guardrail fired
+  stage: 'question' | 'answer';
+  topics: SafetyTopic[];
+  matches: string[];
+  action: SafetyAction;
+  question: string;
+  // the answer as the model wrote it, before the guardrail changed it
+  answer?: string;
+}
+
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+/** Guardrail hits, kept in MongoDB for the safety officer. */
+@Injectable()
+export class SafetyLogService {
+  private readonly log = new Logger(SafetyLogService.name);
+  private client: MongoClient | null = null;
+
+  private readonly uri = process.env.MONGODB_URI ?? '';
+  private readonly dbName = process.env.MONGODB_DB ?? 'admin';
+  private readonly colName =
+    process.env.MONGODB_SAFETY_COL ?? 'xana_safety_events';
+
+  private async getClient(): Promise<MongoClient> {
+    if (this.client) return this.client;
+    this.client = new MongoClient(this.uri);
+    await this.client.connect();
+    return this.client;
+  }
+
+  /** Never throws: a logging outage must not break the answer. */
+  async record(event: SafetyEventRecord): Promise<void> {
+    this.log.warn(
+      `[SAFETY] ${event.action} (${event.stage}: ${event.topics.join(', ')}) for ${event.user ?? 'anonymous'}: "${event.matches.join('", "')}"`,
+    );
+    try {
+      const cli = await this.getClient();
+      await cli
+        .db(this.dbName)
+        .collection<SafetyEventRecord>(this.colName)
+        .insertOne(event);
+    } catch (e) {
+      this.log.error(
+        `[SAFETY] Could not store ${JSON.stringify(event)}: ${errorMessage(e)}`,
+      );
+    }
+  }
+
+  /** A company's hits, newest first, optionally only since `since`. */
+  async list(
+    companyId: string,
+    since?: Date,
+    limit = 100,
+  ): Promise<SafetyEventRecord[]> {
+    const cli = await this.getClient();
+    return cli
+      .db(this.dbName)
+      .collection<SafetyEventRecord>(this.colName)
+      .find(
+        { companyId, ...(since ? { at: { $gte: since } } : {}) },
+        { projection: { _id: 0 } },
+      )
+      .sort({ at: -1 })
+      .limit(Math.min(Math.max(limit, 1), 1000))
+      .toArray();
+  }
+}
@@ -0,0 +1,77 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  Query,
+} from '@nestjs/common';
+import { IdentityService, UserIdentity } from '../auth/identity.service';
+import { SafetyLogService } from './safety-log.service';
+
+/**
+ * Guardrail hits for the safety officer of the caller's company. Requires
+ * `Authorization: Bearer <route token>` with the SAFETY_OFFICER_ROLE role,
+ * or an email listed in SAFETY_OFFICER_EMAILS.
+ */
+@Controller('safety')
+export class SafetyController {
+  private readonly officerRole =
+    process.env.SAFETY_OFFICER_ROLE ?? 'safety_officer';
+  private readonly officerEmails = (process.env.SAFETY_OFFICER_EMAILS ?? '')
+    .split(',')
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+
+  constructor(
+    private readonly safetyLog: SafetyLogService,
+    private readonly identity: IdentityService,
+  ) {}
+
+  private isOfficer(user: UserIdentity): boolean {
+    return (
+      user.roles.includes(this.officerRole) ||
+      this.officerEmails.includes(user.email.toLowerCase())
+    );
+  }
+
+  @Get('events')
+  async events(
+    @Headers('authorization') authorization?: string,
+    @Query('since') since?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    if (!this.isOfficer(user)) {
+      throw new ForbiddenException('Safety events are for safety officers');
+    }
+    if (!user.companyId) {
+      throw new ForbiddenException('No company in the token');
+    }
+    const from = since ? new Date(since) : undefined;
+    if (from && Number.isNaN(from.getTime())) {
+      throw new BadRequestException('since must be an ISO date');
+    }
+    return this.safetyLog.list(
+      user.companyId,
+      from,
+      limit ? parseInt(limit, 10) || 100 : 100,
+    );
+  }
+}
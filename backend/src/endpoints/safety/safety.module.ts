@@ -0,0 +1,28 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { SafetyController } from './safety.controller';
+import { SafetyLogService } from './safety-log.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [SafetyController],
+  providers: [SafetyLogService],
+  exports: [SafetyLogService],
+})
+export class SafetyModule {}
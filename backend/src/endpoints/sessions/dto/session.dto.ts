@@ -0,0 +1,57 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  LANGUAGE_PREFERENCES,
+  type LanguagePreference,
+} from '../../query/context/language';
+
+export const SESSION_ROLES = ['user', 'assistant'] as const;
+export type SessionRole = (typeof SESSION_ROLES)[number];
+
+export class CreateSessionDto {
+  @IsOptional() @IsString() title?: string;
+  @IsOptional() @IsArray() vectorStoreIds?: string[];
+  // answer language; `auto` follows the language of each question
+  @IsOptional() @IsIn(LANGUAGE_PREFERENCES) language?: LanguagePreference;
+}
+
+export class UpdateSessionDto {
+  @IsOptional() @IsString() title?: string;
+  @IsOptional() @IsIn(LANGUAGE_PREFERENCES) language?: LanguagePreference;
+}
+
+export class SessionTurnDto {
+  @IsIn(SESSION_ROLES) role!: SessionRole;
+  @IsString() content!: string;
+  // charts, alerts etc. shown with an assistant turn
+  @IsOptional() data?: Record<string, any>;
+}
+
+export class AppendTurnsDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SessionTurnDto)
+  turns!: SessionTurnDto[];
+}
@@ -0,0 +1,95 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { IdentityService } from '../auth/identity.service';
+import {
+  AppendTurnsDto,
+  CreateSessionDto,
+  UpdateSessionDto,
+} from './dto/session.dto';
+import { SessionsService } from './sessions.service';
+
+/** Chat conversations of the caller. Requires `Authorization: Bearer <route token>`. */
+@Controller('sessions')
+export class SessionsController {
+  constructor(
+    private readonly sessions: SessionsService,
+    private readonly identity: IdentityService,
+  ) {}
+
+  @Post()
+  async create(
+    @Body() dto: CreateSessionDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.create(user, dto ?? {});
+  }
+
+  @Get()
+  async list(@Headers('authorization') authorization?: string) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.list(user);
+  }
+
+  @Get(':id')
+  async get(
+    @Param('id') id: string,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.get(user, id);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateSessionDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.update(user, id, dto);
+  }
+
+  @Delete(':id')
+  async remove(
+    @Param('id') id: string,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.remove(user, id);
+  }
+
+  @Post(':id/turns')
+  async append(
+    @Param('id') id: string,
+    @Body() dto: AppendTurnsDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    const user = await this.identity.fromAuthorizationHeader(authorization);
+    return this.sessions.appendTurns(user, id, dto);
+  }
+}
@@ -0,0 +1,173 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ObjectId } from 'mongodb';
+import { UserIdentity } from '../auth/identity.service';
+import { AppendTurnsDto } from './dto/session.dto';
+import {
+  compactTurnData,
+  sessionTitle,
+  SessionsService,
+  SessionTurn,
+} from './sessions.service';
+
+const alice: UserIdentity = { email: 'alice@example.com', roles: [] };
+const id = new ObjectId().toHexString();
+
+type Filter = Record<string, unknown>;
+type Update = {
+  $set: Record<string, unknown>;
+  $push: { turns: { $each: SessionTurn[] } };
+};
+
+// the collection methods the service calls, recording their filters
+function fakeCollection(doc: Record<string, any> | null = { title: '' }) {
+  return {
+    findOne: jest
+      .fn<Promise<unknown>, [Filter, unknown?]>()
+      .mockResolvedValue(doc),
+    updateOne: jest
+      .fn<Promise<unknown>, [Filter, Update]>()
+      .mockResolvedValue({ matchedCount: 1 }),
+    deleteOne: jest
+      .fn<Promise<unknown>, [Filter]>()
+      .mockResolvedValue({ deletedCount: doc ? 1 : 0 }),
+  };
+}
+
+function serviceWith(col: ReturnType<typeof fakeCollection>) {
+  const service = new SessionsService();
+  jest
+    .spyOn(
+      service as unknown as { collection: () => Promise<unknown> },
+      'collection',
+    )
+    .mockResolvedValue(col);
+  return service;
+}
+
+describe('sessionTitle', () => {
+  it('keeps short questions on one line', () => {
+    expect(sessionTitle('  Why is\n the spindle   hot? ')).toBe(
+      'Why is the spindle hot?',
+    );
+  });
+
+  it('cuts long questions at 60 characters', () => {
+    const title = sessionTitle('a'.repeat(100));
+    expect(title).toHaveLength(60);
+    expect(title.endsWith('…')).toBe(true);
+  });
+});
+
+describe('SessionsService', () => {
+  it("scopes every lookup to the caller's email", async () => {
+    const col = fakeCollection();
+    const service = serviceWith(col);
+    await service.get(alice, id);
+    await service.remove(alice, id);
+    for (const call of [
+      col.findOne.mock.calls[0],
+      col.deleteOne.mock.calls[0],
+    ]) {
+      expect(call[0]).toEqual({ _id: new ObjectId(id), user: alice.email });
+    }
+  });
+
+  it("treats another user's or a malformed id as missing", async () => {
+    const service = serviceWith(fakeCollection(null));
+    await expect(service.get(alice, id)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(service.get(alice, 'not-an-id')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('rejects malformed or empty turns before touching the session', async () => {
+    const col = fakeCollection();
+    const service = serviceWith(col);
+    for (const turns of [
+      [],
+      [{ role: 'system', content: 'x' }],
+      [{ role: 'user', content: 42 }],
+    ]) {
+      await expect(
+        service.appendTurns(alice, id, { turns } as unknown as AppendTurnsDto),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    }
+    expect(col.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('appends to the owned session and titles it from the first question', async () => {
+    const col = fakeCollection();
+    const service = serviceWith(col);
+    await service.appendTurns(alice, id, {
+      turns: [
+        { role: 'user', content: 'Pump pressure?' },
+        { role: 'assistant', content: '6 bar', data: { provider: 'ionos' } },
+      ],
+    });
+    const [filter, update] = col.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: new ObjectId(id), user: alice.email });
+    expect(update.$set.title).toBe('Pump pressure?');
+    expect(update.$push.turns.$each).toHaveLength(2);
+    expect(update.$push.turns.$each[1].data).toEqual({ provider: 'ionos' });
+  });
+});
+
+describe('compactTurnData', () => {
+  const points = Array.from({ length: 5000 }, (_, i) => ({
+    t: new Date(i * 60_000).toISOString(),
+    v: i,
+  }));
+  const data = {
+    provider: 'ionos',
+    charts: [{ meta: { assetUrn: 'urn:a' }, series: points }],
+    alerts: Array.from({ length: 100 }, (_, i) => ({ id: String(i) })),
+  };
+
+  it('leaves small data alone', () => {
+    expect(compactTurnData({ provider: 'ionos' }, 1000)).toEqual({
+      provider: 'ionos',
+    });
+  });
+
+  it('thins series and alerts to fit, keeping the last point', () => {
+    const out = compactTurnData(data, 50_000);
+    const [chart] = out.charts as Array<{ series: unknown[] }>;
+    const series = chart.series;
+    expect(out.truncated).toBe(true);
+    expect(series.length).toBeLessThanOrEqual(201);
+    expect(series[series.length - 1]).toEqual(points[points.length - 1]);
+    expect(out.alerts).toHaveLength(20);
+    expect(JSON.stringify(out).length).toBeLessThanOrEqual(50_000);
+  });
+
+  it('drops series and alerts when thinning is not enough', () => {
+    expect(compactTurnData(data, 2_000)).toEqual({
+      provider: 'ionos',
+      charts: [{ meta: { assetUrn: 'urn:a' }, series: [] }],
+      alerts: [],
+      truncated: true,
+    });
+    expect(compactTurnData(data, 10)).toEqual({
+      provider: 'ionos',
+      truncated: true,
+    });
+  });
+});
@@ -0,0 +1,389 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MongoClient, ObjectId } from 'mongodb';
+import { UserIdentity } from '../auth/identity.service';
+import {
+  isLanguagePreference,
+  LanguagePreference,
+} from '../query/context/language';
+import {
+  AppendTurnsDto,
+  CreateSessionDto,
+  SESSION_ROLES,
+  SessionRole,
+  UpdateSessionDto,
+} from './dto/session.dto';
+
+export interface SessionTurn {
+  role: SessionRole;
+  content: string;
+  at: Date;
+  data?: Record<string, any>;
+}
+
+/** Rolling summary of the turns up to and including `until`. */
+export interface SessionMemory {
+  summary: string;
+  until: Date;
+}
+
+interface SessionDoc {
+  _id: ObjectId;
+  user: string;
+  companyId?: string;
+  title: string;
+  vectorStoreIds: string[];
+  language?: LanguagePreference;
+  createdAt: Date;
+  updatedAt: Date;
+  turns: SessionTurn[];
+  memory?: SessionMemory;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  vectorStoreIds: string[];
+  language: LanguagePreference;
+  createdAt: Date;
+  updatedAt: Date;
+  turnCount: number;
+}
+
+export interface ChatSession extends SessionSummary {
+  turns: SessionTurn[];
+}
+
+const TITLE_LENGTH = 60;
+
+/** Short title from the first question of a conversation. */
+export function sessionTitle(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > TITLE_LENGTH
+    ? `${oneLine.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : oneLine;
+}
+
+// points kept per chart series when a turn's data is over its size cap
+const COMPACT_SERIES_POINTS = 200;
+const COMPACT_ALERTS = 20;
+
+const byteSize = (value: unknown) =>
+  Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+
+// every n-th point, always keeping the last one
+function thin<T>(points: T[], max: number): T[] {
+  if (points.length <= max) return points;
+  const step = Math.ceil(points.length / max);
+  const kept = points.filter((_, i) => i % step === 0);
+  if (kept[kept.length - 1] !== points[points.length - 1]) {
+    kept.push(points[points.length - 1]);
+  }
+  return kept;
+}
+
+function mapCharts(
+  data: Record<string, any>,
+  series: (points: unknown[]) => unknown[],
+): Record<string, any> {
+  if (!Array.isArray(data.charts)) return data;
+  return {
+    ...data,
+    charts: (data.charts as Record<string, any>[]).map((c) => ({
+      ...c,
+      series: Array.isArray(c?.series) ? series(c.series as unknown[]) : [],
+    })),
+  };
+}
+
+function trimAlerts(data: Record<string, any>, max: number) {
+  return {
+    ...data,
+    ...(Array.isArray(data.alerts)
+      ? { alerts: data.alerts.slice(0, max) }
+      : {}),
+    ...(Array.isArray(data.alertGroups)
+      ? {
+          alertGroups: (data.alertGroups as Record<string, any>[]).map((g) => ({
+            ...g,
+            alerts: Array.isArray(g?.alerts) ? g.alerts.slice(0, max) : [],
+          })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Turn data that fits in `maxBytes` of JSON, so a session of
+ * SESSION_MAX_TURNS turns stays below MongoDB's 16 MB document limit.
+ * Over the cap, chart series are thinned and alert lists shortened first,
+ * then dropped; whatever was cut is flagged with `truncated: true`.
+ */
+export function compactTurnData(
+  data: Record<string, any>,
+  maxBytes: number,
+): Record<string, any> {
+  if (byteSize(data) <= maxBytes) return data;
+  const thinned = {
+    ...trimAlerts(
+      mapCharts(data, (s) => thin(s, COMPACT_SERIES_POINTS)),
+      COMPACT_ALERTS,
+    ),
+    truncated: true,
+  };
+  if (byteSize(thinned) <= maxBytes) return thinned;
+  const bare = trimAlerts(
+    mapCharts(thinned, () => []),
+    0,
+  );
+  if (byteSize(bare) <= maxBytes) return bare;
+  return {
+    ...(typeof data.provider === 'string' ? { provider: data.provider } : {}),
+    truncated: true,
+  };
+}
+
+/**
+ * Chat conversations per user, stored in MongoDB next to the vector-store
+ * mappings. Every lookup is filtered by the owner's email, so another
+ * user's session id behaves as if it did not exist.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly log = new Logger(SessionsService.name);
+  private client: MongoClient | null = null;
+
+  private readonly uri = process.env.MONGODB_URI ?? '';
+  private readonly dbName = process.env.MONGODB_DB ?? 'admin';
+  private readonly colName =
+    process.env.MONGODB_SESSIONS_COL ?? 'xana_sessions';
+  // oldest turns are dropped beyond this
+  private readonly maxTurns = parseInt(
+    process.env.SESSION_MAX_TURNS ?? '200',
+    10,
+  );
+  // charts and alerts of one turn; 200 turns of 50 kB stay well below 16 MB
+  private readonly maxTurnDataBytes = parseInt(
+    process.env.SESSION_TURN_DATA_MAX_BYTES ?? '50000',
+    10,
+  );
+
+  private async getClient(): Promise<MongoClient> {
+    if (this.client) return this.client;
+    this.client = new MongoClient(this.uri);
+    await this.client.connect();
+    return this.client;
+  }
+
+  private async collection() {
+    const cli = await this.getClient();
+    return cli.db(this.dbName).collection<SessionDoc>(this.colName);
+  }
+
+  private ownedBy(user: UserIdentity, id: string) {
+    if (!ObjectId.isValid(id)) {
+      throw new NotFoundException(`Session ${id} not found`);
+    }
+    return { _id: new ObjectId(id), user: user.email };
+  }
+
+  private summary(doc: SessionDoc): SessionSummary {
+    return {
+      id: String(doc._id),
+      title: doc.title,
+      vectorStoreIds: doc.vectorStoreIds ?? [],
+      language: doc.language ?? 'auto',
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+      turnCount: doc.turns?.length ?? 0,
+    };
+  }
+
+  async create(user: UserIdentity, dto: CreateSessionDto = {}) {
+    const now = new Date();
+    const doc: SessionDoc = {
+      _id: new ObjectId(),
+      user: user.email,
+      ...(user.companyId ? { companyId: user.companyId } : {}),
+      title: sessionTitle(dto.title ?? ''),
+      vectorStoreIds: Array.isArray(dto.vectorStoreIds)
+        ? dto.vectorStoreIds.map(String)
+        : [],
+      ...(isLanguagePreference(dto.language) ? { language: dto.language } : {}),
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+    };
+    await (await this.collection()).insertOne(doc);
+    this.log.log(`[SESSION] ${user.email} created ${String(doc._id)}`);
+    return this.summary(doc);
+  }
+
+  /** The user's sessions, most recently used first, without their turns. */
+  async list(user: UserIdentity): Promise<SessionSummary[]> {
+    const docs = await (
+      await this.collection()
+    )
+      .aggregate<SessionDoc & { turnCount: number }>([
+        { $match: { user: user.email } },
+        { $sort: { updatedAt: -1 } },
+        { $limit: 100 },
+        {
+          $project: {
+            title: 1,
+            vectorStoreIds: 1,
+            language: 1,
+            createdAt: 1,
+            updatedAt: 1,
+            turnCount: { $size: { $ifNull: ['$turns', []] } },
+          },
+        },
+      ])
+      .toArray();
+    return docs.map((d) => ({
+      ...this.summary({ ...d, turns: [] }),
+      turnCount: d.turnCount,
+    }));
+  }
+
+  async get(user: UserIdentity, id: string): Promise<ChatSession> {
+    const doc = await (await this.collection()).findOne(this.ownedBy(user, id));
+    if (!doc) throw new NotFoundException(`Session ${id} not found`);
+    return { ...this.summary(doc), turns: doc.turns ?? [] };
+  }
+
+  /** Renames a session or changes its answer language. */
+  async update(user: UserIdentity, id: string, dto: UpdateSessionDto) {
+    const $set: Partial<SessionDoc> = {};
+    if (typeof dto?.title === 'string') $set.title = sessionTitle(dto.title);
+    if (dto?.language !== undefined) {
+      if (!isLanguagePreference(dto.language)) {
+        throw new BadRequestException(
+          `Unknown language "${String(dto.language)}"`,
+        );
+      }
+      $set.language = dto.language;
+    }
+    if (!Object.keys($set).length) {
+      throw new BadRequestException('Nothing to update');
+    }
+
+    const doc = await (
+      await this.collection()
+    ).findOneAndUpdate(
+      this.ownedBy(user, id),
+      { $set: { ...$set, updatedAt: new Date() } },
+      { returnDocument: 'after', projection: { turns: 0 } },
+    );
+    if (!doc) throw new NotFoundException(`Session ${id} not found`);
+    return this.summary(doc);
+  }
+
+  async remove(user: UserIdentity, id: string) {
+    const res = await (
+      await this.collection()
+    ).deleteOne(this.ownedBy(user, id));
+    if (!res.deletedCount)
+      throw new NotFoundException(`Session ${id} not found`);
+    this.log.log(`[SESSION] ${user.email} deleted ${id}`);
+    return { id, deleted: true };
+  }
+
+  async appendTurns(user: UserIdentity, id: string, dto: AppendTurnsDto) {
+    const now = Date.now();
+    const turns = (Array.isArray(dto?.turns) ? dto.turns : []).map(
+      (t, i): SessionTurn => {
+        if (!SESSION_ROLES.includes(t?.role)) {
+          throw new BadRequestException(`Unknown role "${t?.role}"`);
+        }
+        if (typeof t.content !== 'string') {
+          throw new BadRequestException('Turn content must be a string');
+        }
+        return {
+          role: t.role,
+          content: t.content,
+          // distinct and ordered, the session memory cuts by timestamp
+          at: new Date(now + i),
+          ...(t.data && typeof t.data === 'object'
+            ? { data: compactTurnData(t.data, this.maxTurnDataBytes) }
+            : {}),
+        };
+      },
+    );
+    if (!turns.length) throw new BadRequestException('No turns to append');
+
+    const col = await this.collection();
+    const filter = this.ownedBy(user, id);
+    const doc = await col.findOne(filter, { projection: { title: 1 } });
+    if (!doc) throw new NotFoundException(`Session ${id} not found`);
+
+    const firstQuestion = turns.find((t) => t.role === 'user')?.content;
+    await col.updateOne(filter, {
+      $push: { turns: { $each: turns, $slice: -this.maxTurns } },
+      $set: {
+        updatedAt: new Date(),
+        ...(!doc.title && firstQuestion
+          ? { title: sessionTitle(firstQuestion) }
+          : {}),
+      },
+    });
+    return { id, appended: turns.length };
+  }
+
+  /**
+   * The last `limit` turns not yet folded into the session memory, plus
+   * that memory and the session's answer language.
+   */
+  async history(
+    user: UserIdentity,
+    id: string,
+    limit: number,
+  ): Promise<{
+    turns: SessionTurn[];
+    memory?: SessionMemory;
+    language?: LanguagePreference;
+  }> {
+    const doc = await (
+      await this.collection()
+    ).findOne(this.ownedBy(user, id), {
+      projection: {
+        memory: 1,
+        language: 1,
+        turns: { $slice: -Math.max(limit, 1) },
+      },
+    });
+    if (!doc) throw new NotFoundException(`Session ${id} not found`);
+    const until = doc.memory?.until?.getTime() ?? -Infinity;
+    return {
+      turns: (doc.turns ?? []).filter((t) => t.at.getTime() > until),
+      memory: doc.memory,
+      language: doc.language,
+    };
+  }
+
+  async saveMemory(user: UserIdentity, id: string, memory: SessionMemory) {
+    await (
+      await this.collection()
+    ).updateOne(this.ownedBy(user, id), { $set: { memory } });
+  }
+}
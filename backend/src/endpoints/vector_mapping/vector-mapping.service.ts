@@ -17,6 +17,18 @@
 import { Injectable, InternalServerErrorException } from '@nestjs/common';
 import { MongoClient } from 'mongodb';
 
+/** Fields of a mapping document this service reads; all optional in Mongo. */
+interface MappingDoc {
+  asset_name?: string;
+  vector_store_id?: string;
+  asset_urn?: string;
+  entity_id?: string;
+  entityId?: string;
+  urn?: string;
+  company_id?: string;
+  companyId?: string;
+}
+
 @Injectable()
 export class VectorMappingService {
   private client: MongoClient | null = null;
@@ -42,10 +54,12 @@ export class VectorMappingService {
     return this.client;
   }
 
-  async listMappings(): Promise<Array<{ id: string; asset_name?: string; vector_store_id: string }>> {
+  async listMappings(): Promise<
+    Array<{ id: string; asset_name?: string; vector_store_id: string }>
+  > {
     try {
       const cli = await this.getClient();
-      const col = cli.db(this.dbName).collection(this.colName);
+      const col = cli.db(this.dbName).collection<MappingDoc>(this.colName);
 
       const docs = await col
         .find({}, { projection: { _id: 1, asset_name: 1, vector_store_id: 1 } })
@@ -53,13 +67,91 @@ export class VectorMappingService {
         .limit(5000)
         .toArray();
 
-      return docs.map((d: any) => ({
+      return docs.map((d) => ({
         id: String(d._id),
         asset_name: d.asset_name,
         vector_store_id: d.vector_store_id || '(unnamed asset)',
       }));
-    } catch (e: any) {
-      throw new InternalServerErrorException(e?.message || 'Mongo query failed');
+    } catch (e) {
+      throw new InternalServerErrorException(
+        e instanceof Error ? e.message : 'Mongo query failed',
+      );
+    }
+  }
+
+  /**
+   * Asset URNs recorded on the mapping documents, keyed by asset name.
+   * Names without a URN field are left out.
+   */
+  async resolveAssetUrns(names: string[]): Promise<Record<string, string>> {
+    if (!names.length) return {};
+    try {
+      const cli = await this.getClient();
+      const col = cli.db(this.dbName).collection<MappingDoc>(this.colName);
+
+      const docs = await col
+        .find(
+          { asset_name: { $in: names } },
+          {
+            projection: {
+              asset_name: 1,
+              asset_urn: 1,
+              entity_id: 1,
+              entityId: 1,
+              urn: 1,
+            },
+          },
+        )
+        .toArray();
+
+      const out: Record<string, string> = {};
+      for (const d of docs) {
+        const urn = [d.asset_urn, d.entity_id, d.entityId, d.urn].find(
+          (v): v is string => typeof v === 'string' && v !== '',
+        );
+        if (d.asset_name && urn) out[d.asset_name] = urn;
+      }
+      return out;
+    } catch (e) {
+      throw new InternalServerErrorException(
+        e instanceof Error ? e.message : 'Mongo query failed',
+      );
+    }
+  }
+
+  /**
+   * Mapping document of the asset with this URN, or null when the URN is not
+   * a known asset. `companyId` is set when the document records an owner.
+   */
+  async findAsset(
+    urn: string,
+  ): Promise<{ asset_name?: string; companyId?: string } | null> {
+    if (!urn) return null;
+    try {
+      const cli = await this.getClient();
+      const col = cli.db(this.dbName).collection<MappingDoc>(this.colName);
+
+      const d = await col.findOne(
+        {
+          $or: [
+            { asset_urn: urn },
+            { entity_id: urn },
+            { entityId: urn },
+            { urn },
+          ],
+        },
+        { projection: { asset_name: 1, company_id: 1, companyId: 1 } },
+      );
+      if (!d) return null;
+      const owner = d.company_id ?? d.companyId;
+      return {
+        asset_name: d.asset_name,
+        ...(owner ? { companyId: String(owner) } : {}),
+      };
+    } catch (e) {
+      throw new InternalServerErrorException(
+        e instanceof Error ? e.message : 'Mongo query failed',
+      );
     }
   }
 }
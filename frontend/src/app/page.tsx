@@ -24,10 +24,38 @@ import { Chart } from 'primereact/chart';
 import { Toast } from "primereact/toast";
 import axios from "axios";
 import { getAccessGroupData, showToast } from "@/utility/tools";
-
-type Message = { role: 'user' | 'system'; content: string, series?: Array<{ t: number | string; v: number }>, alerts?: Record<string, any>[] | null };
+import { streamQuery } from "@/utility/query-stream";
+import { buildChart, chartNotes, ChartSeries } from "@/utility/chart-series";
+import { AlertActionKind, AlertActionRequest, performAlertAction } from "@/utility/alert-actions";
+import AlertActionDialog from '../components/AlertActionDialog';
+import AlertSummaryBlock, { AlertGroup } from '../components/AlertSummaryBlock';
+import SourcesPanel, { SourceRef } from '../components/SourcesPanel';
+import { ChatSession, createSession, deleteSession, getSession, LanguagePreference, listSessions, SessionSummary, updateSession } from "@/utility/sessions";
+
+// progress text while the backend's tool loop runs
+const TOOL_LABELS: Record<string, string> = {
+  search_manuals: 'Searching manuals',
+  get_timeseries: 'Fetching sensor data',
+  get_alerts: 'Checking alerts',
+  get_asset_properties: 'Reading asset properties',
+};
+
+type Message = { role: 'user' | 'system'; content: string, series?: Array<{ t: number | string; v: number }>, charts?: ChartSeries[], alerts?: Record<string, any>[] | null, alertGroups?: AlertGroup[], sources?: SourceRef[], streaming?: boolean };
 type AssetOpt = { asset_name: string; vector_store_id: string };
 const ALL_OPTION = '__ALL__';
+const SESSION_KEY = 'xanaSessionId';
+
+// stored turns back into chat bubbles, charts and alerts included
+const sessionToMessages = (session: ChatSession): Message[] =>
+  session.turns.map(t => ({
+    role: t.role === 'user' ? 'user' : 'system',
+    content: t.content,
+    charts: t.data?.charts,
+    series: t.data?.charts?.find((c: ChartSeries) => c.series.length > 0)?.series,
+    alerts: t.data?.alerts ?? null,
+    alertGroups: t.data?.alertGroups,
+    sources: t.data?.sources,
+  }));
 // put this near the top of your component file
 const API = process.env.NEXT_PUBLIC_API_BASE ?? ''; // e.g. "http://localhost:3001"
 
@@ -39,6 +67,14 @@ export default function Home() {
   const [loading, setLoading] = useState(false);
   const toast = useRef<Toast>(null!) as React.RefObject<Toast>;
   const [login, setLogin] = useState(false);
+  const [routeToken, setRouteToken] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ alert: Record<string, any>; action: AlertActionKind } | null>(null);
+  const [actionBusy, setActionBusy] = useState(false);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [language, setLanguage] = useState<LanguagePreference>('auto');
+  const [promptPrefill, setPromptPrefill] = useState<{ text: string; key: number } | null>(null);
 
   const chatContainerRef = useRef<HTMLDivElement | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
@@ -74,7 +110,9 @@ export default function Home() {
     const urlParams = new URLSearchParams(window.location.search);
     const token = urlParams.get('token');
     if (token) {
+      setRouteToken(token);
       setIndexedDb(token);
+      restoreSession(token, localStorage.getItem(SESSION_KEY));
       let mounted = true;
       fetch(`${API}/vector-mappings`)
         .then(r => r.json())
@@ -97,6 +135,73 @@ export default function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const refreshSessions = async (token: string) => {
+    try {
+      setSessions(await listSessions(API, token));
+    } catch (error) {
+      console.error("Could not load conversations", error);
+    }
+  };
+
+  const openSession = (id: string | null) => {
+    setSessionId(id);
+    if (id) localStorage.setItem(SESSION_KEY, id);
+    else localStorage.removeItem(SESSION_KEY);
+  };
+
+  const restoreSession = async (token: string, id: string | null) => {
+    refreshSessions(token);
+    if (!id) return;
+    try {
+      const session = await getSession(API, id, token);
+      setConversation(sessionToMessages(session));
+      setLanguage(session.language ?? 'auto');
+      openSession(session.id);
+    } catch {
+      // deleted or belongs to someone else: start fresh
+      openSession(null);
+    }
+  };
+
+  const switchSession = async (id: string) => {
+    if (!routeToken || loading) return;
+    if (!id) {
+      openSession(null);
+      setConversation([]);
+      return;
+    }
+    try {
+      const session = await getSession(API, id, routeToken);
+      setConversation(sessionToMessages(session));
+      setLanguage(session.language ?? 'auto');
+      openSession(session.id);
+    } catch (error: any) {
+      showToast(toast, "error", "Conversation", error?.message ?? 'Could not open the conversation');
+    }
+  };
+
+  const changeLanguage = async (value: LanguagePreference) => {
+    setLanguage(value);
+    if (!routeToken || !sessionId) return;
+    try {
+      await updateSession(API, sessionId, routeToken, { language: value });
+    } catch (error: any) {
+      showToast(toast, "error", "Conversation", error?.message ?? 'Could not change the language');
+    }
+  };
+
+  const removeSession = async () => {
+    if (!routeToken || !sessionId) return;
+    try {
+      await deleteSession(API, sessionId, routeToken);
+      openSession(null);
+      setConversation([]);
+      refreshSessions(routeToken);
+    } catch (error: any) {
+      showToast(toast, "error", "Conversation", error?.message ?? 'Could not delete the conversation');
+    }
+  };
+
   const handlePromptSubmit = async (query: string) => {
     if (!query.trim()) return;
 
@@ -111,27 +216,59 @@ export default function Home() {
     // }
 
     setLoading(true);
+    setToolStatus(null);
     const messages: Message[] = [...conversation, { role: 'user', content: query }];
     setConversation(messages);
 
-    try {
-      const res = await fetch(`${API}/query`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages,
-          vectorStoreIds,
-          assets, // optional, used by router
-        }),
+    // Replaces the in-progress streamed bubble if there is one, otherwise appends.
+    const settleReply = (reply: Message) => {
+      setConversation(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.streaming) return [...prev.slice(0, -1), reply];
+        return [...prev, reply];
       });
+    };
 
-      const data = await res.json();
-      if (data.first10 && data.first10.length > 0 || data.alerts && data.alerts.length > 0) {
-        setConversation(prev => [...prev, { role: 'system', content: data.reply ?? 'Something went wrong please try again.', series: data.first10, alerts: data.alerts ?? null }]);
-      }
-      else {
-        setConversation(prev => [...prev, { role: 'system', content: data.reply ?? 'Something went wrong please try again.', series: [], alerts: null }]);
+    try {
+      // signed-in users continue a stored conversation; the backend keeps the history
+      let activeSession = sessionId;
+      if (routeToken && !activeSession) {
+        try {
+          activeSession = (await createSession(API, routeToken, vectorStoreIds, language)).id;
+          openSession(activeSession);
+        } catch (error) {
+          console.error("Could not create a conversation, sending the full history instead", error);
+        }
       }
+      const body = activeSession
+        ? { sessionId: activeSession, message: query, vectorStoreIds, assets }
+        : { messages: messages.map(({ role, content }) => ({ role, content })), vectorStoreIds, assets, language };
+
+      await streamQuery(`${API}/query/stream`, body, {
+        onTool: ({ name }) => setToolStatus(TOOL_LABELS[name] ?? name),
+        onToken: (delta) => {
+          setLoading(false);
+          setConversation(prev => {
+            const last = prev[prev.length - 1];
+            if (last?.streaming) {
+              return [...prev.slice(0, -1), { ...last, content: last.content + delta }];
+            }
+            return [...prev, { role: 'system', content: delta, streaming: true }];
+          });
+        },
+        onDone: (data) => {
+          if (data.first10 && data.first10.length > 0 || data.alerts && data.alerts.length > 0) {
+            settleReply({ role: 'system', content: data.reply ?? ([data.explanation, data.summary].filter(Boolean).join('\n\n') || 'Something went wrong please try again.'), series: data.chart?.series ?? data.first10, charts: data.charts, alerts: data.alerts ?? null, alertGroups: data.alertGroups, sources: data.sources });
+          }
+          else {
+            settleReply({ role: 'system', content: data.reply ?? data.message ?? 'Something went wrong please try again.', series: [], alerts: null, sources: data.sources });
+          }
+        },
+        onError: (message) => {
+          settleReply({ role: 'system', content: `Error: ${message}` });
+        },
+      }, routeToken);
+      if (routeToken && activeSession) refreshSessions(routeToken);
 
       // Test IONOS API Here
       // const res2 = await fetch(`${API}/ai/chat`, {
@@ -154,7 +291,7 @@ export default function Home() {
       // setConversation(prev => [...prev, { role: 'system', content: data.choices[0]?.message.content ?? 'No reply.' }]);
 
     } catch (err: any) {
-      setConversation(prev => [...prev, { role: 'system', content: `Error: ${err?.message || 'request failed'}` }]);
+      settleReply({ role: 'system', content: `Error: ${err?.message || 'request failed'}` });
     } finally {
       setLoading(false);
     }
@@ -191,38 +328,49 @@ export default function Home() {
   //   scales: { x: { ticks: { autoSkip: true, maxRotation: 0 } } },
   // }), []);
 
+  const runAlertAction = async (request: AlertActionRequest) => {
+    if (!pendingAction) return;
+    const { alert } = pendingAction;
+    if (!routeToken) {
+      showToast(toast, "error", "Unauthorized", "Open the application from IFX suite to act on alerts.");
+      return;
+    }
+    setActionBusy(true);
+    try {
+      const result = await performAlertAction(API, alert.id, request, routeToken);
+      // reflect the new status in every message that lists this alert
+      const patch = (a: Record<string, any>) => (a.id === alert.id ? { ...a, status: result.status } : a);
+      setConversation(prev => prev.map(m => m.alerts ? {
+        ...m,
+        alerts: m.alerts.map(patch),
+        alertGroups: m.alertGroups?.map(g => ({ ...g, alerts: g.alerts.map(patch) })),
+      } : m));
+      showToast(toast, "success", "Alerta", request.action === 'note' ? 'Note added' : `Alert is now ${result.status}`);
+      setPendingAction(null);
+    } catch (error: any) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.message ?? error.message : String(error);
+      showToast(toast, "error", "Alerta", message);
+    } finally {
+      setActionBusy(false);
+    }
+  };
 
-  const chartOptions = {
-    responsive: true,
-    maintainAspectRatio: false,
-    plugins: {
-      legend: {
-        labels: { color: '#e5e7eb', boxWidth: 12, boxHeight: 12 },
-      },
-      tooltip: {
-        backgroundColor: '#0b0b0b',
-        titleColor: '#f3f4f6',
-        bodyColor: '#e5e7eb',
-        borderColor: '#1f2937',
-        borderWidth: 1,
-      },
-    },
-    scales: {
-      x: {
-        ticks: { color: '#9ca3af' },
-        grid: { color: 'rgba(255,255,255,0.06)' },
-      },
-      y: {
-        ticks: { color: '#9ca3af' },
-        grid: { color: 'rgba(255,255,255,0.06)' },
-      },
-    },
-    elements: { point: { radius: 2 } }
+  // drafts a follow-up about a single alert; the user can still edit it before sending
+  const explainAlert = (alert: Record<string, any>) => {
+    const text = `Explain the alert "${alert.event}" (id ${alert.id}, severity ${alert.severity}) on ${alert.resource}: what does it mean, what are likely causes and how do I fix it?`;
+    setPromptPrefill({ text, key: Date.now() });
   };
 
   return (
     <>
       <Toast ref={toast} />
+      <AlertActionDialog
+        alert={pendingAction?.alert ?? null}
+        action={pendingAction?.action ?? null}
+        busy={actionBusy}
+        onConfirm={runAlertAction}
+        onCancel={() => setPendingAction(null)}
+      />
       {login && (
         <main className="flex flex-col h-screen bg-neutral-900 text-neutral-100 
   bg-[radial-gradient(1200px_800px_at_80%_-10%,rgba(99,102,241,0.08),transparent_60%),radial-gradient(900px_600px_at_10%_120%,rgba(168,85,247,0.08),transparent_60%)]">
@@ -264,6 +412,43 @@ export default function Home() {
               </div>
 
 
+              {/* Conversations */}
+              {routeToken && (
+                <div className="min-w-[200px]">
+                  <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                    Conversation
+                  </label>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={sessionId ?? ''}
+                      onChange={(e) => switchSession(e.target.value)}
+                      className={`w-full rounded-xl border px-3 py-2 text-sm outline-none
+          ${chatBgTheme === 'white'
+                          ? 'bg-white border-gray-300 text-gray-900 focus:ring-sky-400'
+                          : 'bg-neutral-900/80 border-white/10 text-neutral-100 focus:ring-indigo-500/60'}
+        `}
+                    >
+                      <option value="">New conversation</option>
+                      {sessions.map(s => (
+                        <option key={s.id} value={s.id}>
+                          {s.title || 'Untitled'} · {new Date(s.updatedAt).toLocaleDateString()}
+                        </option>
+                      ))}
+                    </select>
+                    {sessionId && (
+                      <button
+                        type="button"
+                        title="Delete this conversation"
+                        onClick={removeSession}
+                        className="px-2 py-2 rounded-xl border text-sm hover:bg-red-500/10"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Machines dropdown */}
               <div className="min-w-[200px]">
                 <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
@@ -288,6 +473,27 @@ export default function Home() {
                 </select>
               </div>
 
+              {/* Answer language */}
+              <div className="min-w-[160px]">
+                <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                  Language
+                </label>
+                <select
+                  value={language}
+                  onChange={(e) => changeLanguage(e.target.value as LanguagePreference)}
+                  className={`w-full rounded-xl border px-3 py-2 text-sm outline-none
+          ${chatBgTheme === 'white'
+                      ? 'bg-white border-gray-300 text-gray-900 focus:ring-sky-400'
+                      : 'bg-neutral-900/80 border-white/10 text-neutral-100 focus:ring-indigo-500/60'}
+        `}
+                >
+                  <option value="auto">Same as question</option>
+                  <option value="en">English</option>
+                  <option value="de">Deutsch</option>
+                  <option value="nl">Nederlands</option>
+                </select>
+              </div>
+
               {/* Theme selector */}
               <div className="min-w-[200px]">
                 <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
@@ -373,75 +579,33 @@ export default function Home() {
                               : 'bg-neutral-900/60 border border-white/10'}
               `}
                         >
-                          <Chart
-                            type="line"
-                            data={{
-                              labels: msg?.series?.map(p =>
-                                typeof p.t === 'number' ? String(p.t) : p.t
-                              ),
-                              datasets: [
-                                {
-                                  label: 'value',
-                                  data: msg?.series?.map(p => p.v),
-                                  borderWidth: 2,
-                                  fill: false,
-                                  tension: 0.25,
-                                  borderColor:
-                                    chatBgTheme === 'white' ? '#0ea5e9' : '#6366f1',
-                                  pointBackgroundColor:
-                                    chatBgTheme === 'white' ? '#0284c7' : '#a78bfa',
-                                },
-                              ],
-                            }}
-                            options={chartOptions}
-                          />
+                          {(() => {
+                            const charts: ChartSeries[] = msg.charts?.length
+                              ? msg.charts.filter(c => c.series.length > 0)
+                              : [{ series: msg.series ?? [], meta: { assetUrn: '', metric: 'value' } }];
+                            const { data, options } = buildChart(charts, chatBgTheme);
+                            return <Chart type="line" data={data} options={options} />;
+                          })()}
                         </div>
+                        {chartNotes(msg.charts ?? []).map(note => (
+                          <p key={note} className="text-xs text-amber-500 mt-1">{note}</p>
+                        ))}
                       </div>
                     )}
 
 
-                    {!isUser && (msg.alerts?.length ?? 0) > 0 && (() => {
-                      const total = (msg.alerts ?? []).length
-                      const severityCounts = (msg.alerts ?? []).reduce((acc, a) => {
-                        acc[a.severity] = (acc[a.severity] || 0) + 1
-                        return acc
-                      }, {} as Record<string, number>)
-                      const statusCounts = (msg.alerts ?? []).reduce((acc, a) => {
-                        acc[a.status] = (acc[a.status] || 0) + 1
-                        return acc
-                      }, {} as Record<string, number>)
-
-                      return (
-                        <div className="mt-3">
-                          <h5 className="text-sm font-semibold mb-1">
-                            Alerts ({total}) • Last update: {msg.alerts && msg.alerts[0]?.updateTime ? new Date(msg.alerts[0].updateTime).toLocaleString() : 'N/A'}
-                          </h5>
-
-                          <div className="text-xs text-slate-600 mb-2">
-                            severity → {Object.entries(severityCounts).map(([k, v]) => `${k}: ${v}`).join(", ")}
-                            {"  "} | status → {Object.entries(statusCounts).map(([k, v]) => `${k}: ${v}`).join(", ")}
-                          </div>
-
-                          <ul className="pl-0 space-y-2">
-                            {(msg.alerts ?? []).map((a, i) => (
-                              <li key={i} className="text-xs border rounded p-2">
-                                <div className="flex flex-wrap items-center gap-2">
-                                  <span className="px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800 border border-yellow-200">
-                                    {a.severity}
-                                  </span>
-                                  <span className="font-medium break-words">
-                                    {(a.event || "").replace("CountConstraintComponent(", "").replace(")", "")}
-                                  </span>
-                                </div>
-                                <div className="text-[11px] text-slate-500 mt-1">
-                                  asset: …{a.resource?.slice(-8)} | status: {a.status} | at {new Date(a.createTime).toLocaleTimeString()}
-                                </div>
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                      )
-                    })()}
+                    {!isUser && (msg.alerts?.length ?? 0) > 0 && (
+                      <AlertSummaryBlock
+                        alerts={msg.alerts ?? []}
+                        groups={msg.alertGroups}
+                        onAction={(alert, action) => setPendingAction({ alert, action })}
+                        onExplain={explainAlert}
+                      />
+                    )}
+
+                    {!isUser && (msg.sources?.length ?? 0) > 0 && (
+                      <SourcesPanel sources={msg.sources ?? []} dark={chatBgTheme !== 'white'} />
+                    )}
 
                   </div>
                 </div>
@@ -477,7 +641,7 @@ export default function Home() {
                       : 'text-emerald-200 drop-shadow-[0_0_8px_rgba(16,185,129,.25)]'}
           animate-pulse`}
                   >
-                    [ Thinking… ]
+                    [ {toolStatus ?? 'Thinking'}… ]
                   </span>
                 </div>
               </div>
@@ -496,6 +660,7 @@ export default function Home() {
             <div className="max-w-5xl mx-auto">
               <PromptBox
                 onSubmit={handlePromptSubmit}
+                prefill={promptPrefill}
                 theme={chatBgTheme} // pass theme down
               />
             </div>
@@ -0,0 +1,106 @@
+// 
+// Copyright (c) 2025 Industry Fusion Foundation
+// 
+// Licensed under the Apache License, Version 2.0 (the "License"); 
+// you may not use this file except in compliance with the License. 
+// You may obtain a copy of the License at 
+// 
+//   http://www.apache.org/licenses/LICENSE-2.0 
+// 
+// Unless required by applicable law or agreed to in writing, software 
+// distributed under the License is distributed on an "AS IS" BASIS, 
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. 
+// See the License for the specific language governing permissions and 
+// limitations under the License. 
+// 
+
+import React, { useEffect, useState } from "react";
+import { Dialog } from "primereact/dialog";
+import { InputNumber } from "primereact/inputnumber";
+import { InputTextarea } from "primereact/inputtextarea";
+import { Button } from "@/components/ui/button";
+import type { AlertActionKind, AlertActionRequest } from "@/utility/alert-actions";
+
+const TITLES: Record<AlertActionKind, string> = {
+  ack: "Acknowledge alert",
+  shelve: "Shelve alert",
+  close: "Close alert",
+  note: "Add note",
+};
+
+type Props = {
+  alert: Record<string, any> | null;
+  action: AlertActionKind | null;
+  busy?: boolean;
+  onConfirm: (request: AlertActionRequest) => void;
+  onCancel: () => void;
+};
+
+// Explicit confirmation before XANA changes anything in Alerta.
+export default function AlertActionDialog({ alert, action, busy, onConfirm, onCancel }: Props) {
+  const [hours, setHours] = useState<number | null>(4);
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    setHours(4);
+    setText("");
+  }, [alert, action]);
+
+  if (!alert || !action) return null;
+
+  const invalid = (action === "shelve" && !(hours && hours > 0)) || (action === "note" && !text.trim());
+
+  return (
+    <Dialog
+      visible
+      header={TITLES[action]}
+      onHide={onCancel}
+      style={{ width: "28rem" }}
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={busy}>Cancel</Button>
+          <Button
+            size="sm"
+            disabled={busy || invalid}
+            onClick={() => onConfirm({
+              action,
+              ...(action === "shelve" ? { hours: hours ?? undefined } : {}),
+              ...(text.trim() ? { text: text.trim() } : {}),
+            })}
+          >
+            {busy ? "Working…" : "Confirm"}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-3 text-sm">
+        <div>
+          <div className="font-medium break-words">{alert.event}</div>
+          <div className="text-xs text-slate-500 break-all">
+            {alert.resource} · {alert.severity} · {alert.status}
+          </div>
+        </div>
+
+        {action === "shelve" && (
+          <label className="flex items-center gap-2">
+            <span>Shelve for</span>
+            <InputNumber value={hours} onValueChange={e => setHours(e.value ?? null)} min={1} max={720} inputClassName="w-20" />
+            <span>hours</span>
+          </label>
+        )}
+
+        <InputTextarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={3}
+          className="w-full"
+          placeholder={action === "note" ? "Note for the alert" : "Comment (optional)"}
+        />
+
+        <p className="text-xs text-slate-500">
+          This is recorded in Alerta and in the XANA audit log under your name.
+        </p>
+      </div>
+    </Dialog>
+  );
+}
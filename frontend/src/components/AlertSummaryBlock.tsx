@@ -25,7 +25,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { AlertTriangle, Clock, Layers, Copy, Check, ChevronDown } from "lucide-react";
+import { AlertTriangle, Clock, Layers, Copy, Check, ChevronDown, ChevronRight, MessageSquare, X } from "lucide-react";
+import { AlertActionKind } from "@/utility/alert-actions";
 
 // 🔧 Small util: pretty relative time (e.g., "3h ago")
 const fmtRelative = (iso?: string) => {
@@ -44,54 +45,76 @@ const fmtRelative = (iso?: string) => {
   return rtf.format(diffDay, "day");
 };
 
-// 🧠 Derive a rich summary from msg
-const useAlertSummary = (msg: any) => {
-  return useMemo(() => {
-    const alerts = Array.isArray(msg?.alerts) ? msg.alerts : [];
-    const total = alerts.length;
+export type AlertRecord = Record<string, any>;
+export type AlertGroup = { assetUrn: string; assetName?: string; total: number; truncated?: boolean; alerts: AlertRecord[] };
+
+// Most severe first; matches the order the backend sorts alerts in.
+const SEVERITY_ORDER = ["security", "critical", "major", "minor", "warning", "indeterminate", "informational", "debug", "trace", "ok", "normal", "cleared"];
+const severityRank = (sev?: string) => {
+  const i = SEVERITY_ORDER.indexOf(sev ?? "");
+  return i === -1 ? SEVERITY_ORDER.length : i;
+};
 
-    // counts
+const ACTION_LABELS: Record<AlertActionKind, string> = { ack: "Acknowledge", shelve: "Shelve", close: "Close", note: "Add note" };
+
+// 🧠 Derive a rich summary from the (filtered) alerts
+const useAlertSummary = (alerts: AlertRecord[], groups: AlertGroup[] | undefined, severityFilter: Set<string>) => {
+  return useMemo(() => {
+    // counts are always over everything so the filter chips stay stable
     const severityCounts: Record<string, number> = {};
     const statusCounts: Record<string, number> = {};
-    const byEvent: Record<string, any[]> = {};
-    const impactedAssets = new Set<string>();
-
     for (const a of alerts) {
       severityCounts[a.severity] = (severityCounts[a.severity] || 0) + 1;
       statusCounts[a.status] = (statusCounts[a.status] || 0) + 1;
-      impactedAssets.add(a.resource);
+    }
+
+    const visible = severityFilter.size ? alerts.filter((a) => severityFilter.has(a.severity)) : alerts;
+    const byEvent: Record<string, AlertRecord[]> = {};
+    const impactedAssets = new Set<string>();
+    for (const a of visible) {
+      if (a.resource) impactedAssets.add(a.resource);
       const key = a.event ?? "(no event)";
       if (!byEvent[key]) byEvent[key] = [];
       byEvent[key].push(a);
     }
 
     // newest first for timeline
-    const timeline = [...alerts].sort((a, b) => new Date(b.createTime).getTime() - new Date(a.createTime).getTime());
+    const timeline = [...visible].sort((a, b) => new Date(b.createTime).getTime() - new Date(a.createTime).getTime());
 
-    // top 3 event clusters by size
-    const clusters = Object.entries(byEvent)
-      .sort((a, b) => b[1].length - a[1].length)
-      .slice(0, 3);
+    // biggest clusters first, ties broken by the worst severity inside
+    const clusters = Object.entries(byEvent).sort(
+      (a, b) =>
+        b[1].length - a[1].length ||
+        Math.min(...a[1].map((x) => severityRank(x.severity))) - Math.min(...b[1].map((x) => severityRank(x.severity))),
+    );
+
+    const lastTime = alerts.reduce<string | undefined>((latest, a) => {
+      const t = a.lastReceiveTime ?? a.updateTime ?? a.createTime;
+      return t && (!latest || new Date(t) > new Date(latest)) ? t : latest;
+    }, undefined);
+
+    const assetNames = new Map<string, string>();
+    for (const g of groups ?? []) if (g.assetName) assetNames.set(g.assetUrn, g.assetName);
 
     return {
-      alerts,
-      total,
+      total: alerts.length,
+      visible,
       severityCounts,
       statusCounts,
       impactedAssets: Array.from(impactedAssets),
+      assetNames,
       timeline,
       clusters,
-      lastTime: msg?.lastTime,
-      environment: msg?.environment,
-      page: msg?.page,
-      pages: msg?.pages,
+      lastTime,
+      truncated: (groups ?? []).some((g) => g.truncated),
     };
-  }, [msg]);
+  }, [alerts, groups, severityFilter]);
 };
 
 const severityColor = (sev?: string) => {
   switch (sev) {
     case "critical":
+    case "security":
       return "bg-red-100 text-red-800 border-red-200";
     case "major":
       return "bg-orange-100 text-orange-800 border-orange-200";
@@ -114,49 +137,114 @@ const copyToClipboard = async (text: string, setCopied: (b: boolean) => void) =>
   } catch {}
 };
 
-// 💥 Drop-in replacement block
-export default function AlertSummaryBlock({ msg, isUser }: { msg: any; isUser?: boolean }) {
-  const {
-    alerts,
-    total,
-    severityCounts,
-    statusCounts,
-    impactedAssets,
-    timeline,
-    clusters,
-    lastTime,
-  } = useAlertSummary(msg);
+type AlertSummaryBlockProps = {
+  alerts: AlertRecord[];
+  groups?: AlertGroup[];
+  /** opens the confirmation dialog for an Alerta action */
+  onAction?: (alert: AlertRecord, action: AlertActionKind) => void;
+  /** pre-fills a follow-up question about the alert */
+  onExplain?: (alert: AlertRecord) => void;
+};
+
+function AlertRow({ alert, assetName, onAction, onExplain }: { alert: AlertRecord; assetName?: string } & Pick<AlertSummaryBlockProps, "onAction" | "onExplain">) {
+  return (
+    <li className="text-xs">
+      <div className="flex items-start gap-2">
+        <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${severityColor(alert.severity).split(" ")[0]}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium break-words">{alert.event}</span>
+            <Badge className={`text-[10px] border ${severityColor(alert.severity)}`}>{alert.severity}</Badge>
+            <Badge variant="outline" className="text-[10px] capitalize">{alert.status}</Badge>
+            <span className="text-slate-500">{fmtRelative(alert.createTime)}</span>
+          </div>
+          <div className="font-mono text-[11px] text-slate-600 break-all mt-1">{assetName ? `${assetName} · ` : ""}{alert.resource}</div>
+          {alert.text && <div className="text-slate-700 mt-1 break-words">{alert.text}</div>}
+          {alert.id && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {onExplain && (
+                <Button size="sm" variant="outline" className="h-6 px-2 text-[11px]" onClick={() => onExplain(alert)}>
+                  <MessageSquare className="h-3 w-3 mr-1" /> Explain this alert
+                </Button>
+              )}
+              {onAction &&
+                (Object.keys(ACTION_LABELS) as AlertActionKind[]).map((action) => (
+                  <Button key={action} size="sm" variant="ghost" className="h-6 px-2 text-[11px]" onClick={() => onAction(alert, action)}>
+                    {ACTION_LABELS[action]}
+                  </Button>
+                ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+// 💥 Rich alert block rendered under an assistant reply
+export default function AlertSummaryBlock({ alerts, groups, onAction, onExplain }: AlertSummaryBlockProps) {
+  const [severityFilter, setSeverityFilter] = useState<Set<string>>(new Set());
+  const { total, visible, severityCounts, statusCounts, impactedAssets, assetNames, timeline, clusters, lastTime, truncated } =
+    useAlertSummary(alerts, groups, severityFilter);
 
   const [copied, setCopied] = useState(false);
   const [expanded, setExpanded] = useState(false);
+  const [openClusters, setOpenClusters] = useState<Set<string>>(new Set());
+
+  if (total === 0) return null;
+
+  const toggle = (set: Set<string>, key: string) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  };
 
-  if (isUser || total === 0) return null;
+  const severities = Object.keys(severityCounts).sort((a, b) => severityRank(a) - severityRank(b));
+  const [topEvent, topAlerts] = clusters[0] ?? [];
+  const worst = severities.find((s) => !severityFilter.size || severityFilter.has(s));
 
   return (
     <Card className="mt-3 border border-slate-200 shadow-sm">
       <CardHeader className="pb-2">
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-2">
           <div className="flex items-center gap-2">
             <AlertTriangle className="h-4 w-4" />
             <CardTitle className="text-sm">Alerts Summary</CardTitle>
           </div>
-          <div className="flex items-center gap-2">
-            <Badge variant="secondary" className="text-xs">Total: {total}</Badge>
-            <Badge className={`text-xs border ${severityColor("warning")}`}>warning: {severityCounts["warning"] ?? 0}</Badge>
-            {Object.entries(severityCounts)
-              .filter(([k]) => k !== "warning")
-              .map(([sev, cnt]) => (
-                <Badge key={sev} className={`text-xs border ${severityColor(sev)}`}>{sev}: {cnt}</Badge>
-              ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="text-xs">Total: {total}{truncated ? "+" : ""}</Badge>
+            {severities.map((sev) => {
+              const active = severityFilter.has(sev);
+              return (
+                <button
+                  key={sev}
+                  type="button"
+                  title={active ? `Show all severities` : `Only show ${sev}`}
+                  onClick={() => setSeverityFilter((f) => toggle(f, sev))}
+                >
+                  <Badge className={`text-xs border ${severityColor(sev)} ${severityFilter.size && !active ? "opacity-40" : ""} ${active ? "ring-2 ring-offset-1 ring-slate-400" : ""}`}>
+                    {sev}: {severityCounts[sev]}
+                  </Badge>
+                </button>
+              );
+            })}
+            {severityFilter.size > 0 && (
+              <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setSeverityFilter(new Set())}>
+                <X className="h-3 w-3 mr-1" /> Clear
+              </Button>
+            )}
           </div>
         </div>
-        <div className="mt-1 text-xs text-slate-500 flex items-center gap-2">
-          <Clock className="h-3 w-3" /> Last update {fmtRelative(lastTime)} ({new Date(lastTime).toLocaleString()})
-        </div>
+        {lastTime && (
+          <div className="mt-1 text-xs text-slate-500 flex items-center gap-2">
+            <Clock className="h-3 w-3" /> Last update {fmtRelative(lastTime)} ({new Date(lastTime).toLocaleString()})
+          </div>
+        )}
       </CardHeader>
       <CardContent className="space-y-3">
         {/* Quick Facts */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <div className="p-3 rounded-2xl border bg-white">
             <div className="text-[11px] uppercase tracking-wide text-slate-500 mb-1">Statuses</div>
             <div className="flex flex-wrap gap-2">
@@ -173,39 +261,58 @@ export default function AlertSummaryBlock({ msg, isUser }: { msg: any; isUser?:
             <ScrollArea className="h-16 mt-2 rounded-md border">
               <ul className="text-xs p-2 space-y-1">
                 {impactedAssets.map((r) => (
-                  <li key={r} className="font-mono break-all">{r}</li>
+                  <li key={r} className="font-mono break-all">{assetNames.get(r) ? `${assetNames.get(r)} · ` : ""}{r}</li>
                 ))}
               </ul>
             </ScrollArea>
           </div>
-          <div className="p-3 rounded-2xl border bg-white">
-            <div className="text-[11px] uppercase tracking-wide text-slate-500 mb-1">Top Issues</div>
-            <ul className="text-xs space-y-1">
-              {clusters.map(([event, arr]) => (
-                <li key={event} className="flex items-start gap-2">
-                  <span className={`mt-1 h-2 w-2 rounded-full ${severityCounts["critical"] ? "bg-red-500" : "bg-yellow-500"}`} />
-                  <div>
-                    <div className="font-medium break-words">{event}</div>
-                    <div className="text-slate-500">{arr.length} alert{arr.length > 1 ? "s" : ""}</div>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          </div>
         </div>
 
+        {/* Narrative, derived from what is on screen */}
+        {topEvent && (
+          <div className="text-sm leading-relaxed">
+            <p>
+              Showing <span className="font-semibold">{visible.length}</span> of {total} alert{total !== 1 ? "s" : ""}
+              {worst && <> (worst: <span className="font-semibold">{worst}</span>)</>} across{" "}
+              <span className="font-semibold">{impactedAssets.length}</span> asset{impactedAssets.length !== 1 ? "s" : ""}. The most
+              frequent issue is <span className="font-semibold break-words">{topEvent}</span> with {topAlerts?.length} occurrence
+              {topAlerts?.length !== 1 ? "s" : ""}.
+            </p>
+          </div>
+        )}
+
         <Separator />
 
-        {/* Smart Narrative */}
-        <div className="text-sm leading-relaxed">
-          <p>
-            Detected <span className="font-semibold">{total}</span> alert{total !== 1 ? "s" : ""} — predominantly
-            <span className="font-semibold"> warning</span> — all acknowledged. Affected assets total
-            <span className="font-semibold"> {impactedAssets.length}</span>. The most frequent pattern is
-            <span className="font-semibold"> CountConstraintComponent(noise)</span>, indicating schema violations for
-            the <span className="font-mono">https://industry-fusion.org/base/v0.1/noise</span> property. Each record reports
-            "Found 0 relationships instead of [1,1]", suggesting a missing mandatory linkage in the model.
-          </p>
+        {/* Event clusters; each one expands into its alerts */}
+        <div>
+          <div className="text-xs font-semibold mb-1">Issues</div>
+          <ul className="space-y-1">
+            {clusters.map(([event, arr]) => {
+              const open = openClusters.has(event);
+              const sev = arr.reduce((w, a) => (severityRank(a.severity) < severityRank(w) ? a.severity : w), arr[0]?.severity);
+              return (
+                <li key={event} className="rounded-md border">
+                  <button
+                    type="button"
+                    className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-slate-500/5"
+                    onClick={() => setOpenClusters((s) => toggle(s, event))}
+                  >
+                    <ChevronRight className={`h-3 w-3 shrink-0 transition-transform ${open ? "rotate-90" : ""}`} />
+                    <span className={`h-2 w-2 shrink-0 rounded-full ${severityColor(sev).split(" ")[0]}`} />
+                    <span className="font-medium break-words flex-1">{event}</span>
+                    <span className="text-slate-500">{arr.length} alert{arr.length > 1 ? "s" : ""}</span>
+                  </button>
+                  {open && (
+                    <ul className="px-3 pb-2 pt-1 space-y-3 border-t">
+                      {arr.map((a, i) => (
+                        <AlertRow key={a.id ?? i} alert={a} assetName={assetNames.get(a.resource)} onAction={onAction} onExplain={onExplain} />
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
         </div>
 
         {/* Timeline (latest → oldest) */}
@@ -220,7 +327,7 @@ export default function AlertSummaryBlock({ msg, isUser }: { msg: any; isUser?:
               size="sm"
               variant="outline"
               className="h-7 px-2 text-xs ml-auto"
-              onClick={() => copyToClipboard(JSON.stringify(alerts, null, 2), setCopied)}
+              onClick={() => copyToClipboard(JSON.stringify(visible, null, 2), setCopied)}
             >
               {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />} Copy JSON
             </Button>
@@ -229,22 +336,7 @@ export default function AlertSummaryBlock({ msg, isUser }: { msg: any; isUser?:
             <ScrollArea className="h-44 mt-2 rounded-md border">
               <ul className="p-3 space-y-3">
                 {timeline.map((a, i) => (
-                  <li key={a.id ?? i} className="text-xs">
-                    <div className="flex items-start gap-2">
-                      <span className={`mt-1 h-2 w-2 rounded-full ${severityColor(a.severity).split(" ")[0].replace("bg-", "bg-")}`} />
-                      <div className="flex-1 min-w-0">
-                        <div className="flex flex-wrap items-center gap-2">
-                          <span className="font-medium break-words">{a.event}</span>
-                          <Badge className={`text-[10px] border ${severityColor(a.severity)}`}>{a.severity}</Badge>
-                          <span className="text-slate-500">{fmtRelative(a.createTime)}</span>
-                        </div>
-                        <div className="font-mono text-[11px] text-slate-600 break-all mt-1">{a.resource}</div>
-                        {a.text && (
-                          <div className="text-slate-700 mt-1 break-words">{a.text}</div>
-                        )}
-                      </div>
-                    </div>
-                  </li>
+                  <AlertRow key={a.id ?? i} alert={a} assetName={assetNames.get(a.resource)} onAction={onAction} onExplain={onExplain} />
                 ))}
               </ul>
             </ScrollArea>
@@ -254,15 +346,3 @@ export default function AlertSummaryBlock({ msg, isUser }: { msg: any; isUser?:
     </Card>
   );
 }
-
-/*
-🙌 How to use (drop-in replacement):
-
-Replace your block with:
-
-{!isUser && (msg.alerts?.length ?? 0) > 0 && (
-  <AlertSummaryBlock msg={msg} isUser={isUser} />
-)}
-
-This component expects Tailwind + shadcn/ui to be available.
-*/
@@ -15,14 +15,27 @@
 // 
 
 // components/PromptBox.tsx
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 type PromptBoxProps = {
   onSubmit: (q: string) => void;
   theme: 'dark' | 'white';
+  // text to drop into the box for the user to edit; `key` changes on every request
+  prefill?: { text: string; key: number } | null;
 };
 
-export default function PromptBox({ onSubmit, theme }: PromptBoxProps) {
+export default function PromptBox({ onSubmit, theme, prefill }: PromptBoxProps) {
   const [prompt, setPrompt] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!prefill) return;
+    setPrompt(prefill.text);
+    const el = inputRef.current;
+    if (el) {
+      el.focus();
+      el.setSelectionRange(prefill.text.length, prefill.text.length);
+    }
+  }, [prefill]);
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -43,6 +56,7 @@ export default function PromptBox({ onSubmit, theme }: PromptBoxProps) {
       `}
     >
       <textarea
+        ref={inputRef}
         rows={1}
         value={prompt}
         onChange={(e) => setPrompt(e.target.value)}
@@ -0,0 +1,82 @@
+// 
+// Copyright (c) 2025 Industry Fusion Foundation
+// 
+// Licensed under the Apache License, Version 2.0 (the "License"); 
+// you may not use this file except in compliance with the License. 
+// You may obtain a copy of the License at 
+// 
+//   http://www.apache.org/licenses/LICENSE-2.0 
+// 
+// Unless required by applicable law or agreed to in writing, software 
+// distributed under the License is distributed on an "AS IS" BASIS, 
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied. 
+// See the License for the specific language governing permissions and 
+// limitations under the License. 
+// 
+
+
+import React from "react";
+import { BookOpen, ExternalLink } from "lucide-react";
+
+// One [n] source of an answer, as returned by the backend
+export type SourceRef = {
+  n: number;
+  filename: string;
+  section_path?: string;
+  page?: number;
+  sourceUrl?: string;
+  score?: number;
+  cited: boolean;
+};
+
+// PDF viewers open `#page=N` at that page
+const sourceHref = (s: SourceRef) => (s.sourceUrl ? (s.page ? `${s.sourceUrl}#page=${s.page}` : s.sourceUrl) : undefined);
+
+type SourcesPanelProps = {
+  sources: SourceRef[];
+  dark?: boolean;
+};
+
+export default function SourcesPanel({ sources, dark = false }: SourcesPanelProps) {
+  if (!sources.length) return null;
+  const cited = sources.some((s) => s.cited);
+
+  return (
+    <div className={`mt-3 rounded-xl border p-3 text-xs ${dark ? "border-white/10 bg-neutral-900/60" : "border-gray-300 bg-gray-50"}`}>
+      <div className="mb-2 flex items-center gap-2 font-semibold">
+        <BookOpen className="h-3.5 w-3.5" />
+        {cited ? "Sources" : "Related documents"}
+      </div>
+      <ol className="space-y-1">
+        {sources.map((s) => {
+          const href = sourceHref(s);
+          const label = (
+            <>
+              <span className="font-mono opacity-70">[{s.n}]</span> <span className="font-medium">{s.filename}</span>
+              {s.section_path && <span className="opacity-70"> › {s.section_path}</span>}
+              {s.page && <span className="opacity-70"> · p. {s.page}</span>}
+            </>
+          );
+          return (
+            <li key={s.n}>
+              {href ? (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`inline-flex items-center gap-1 hover:underline ${dark ? "text-emerald-200" : "text-sky-800"}`}
+                  title={s.page ? `Open ${s.filename} at page ${s.page}` : `Open ${s.filename}`}
+                >
+                  {label}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              ) : (
+                <span>{label}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
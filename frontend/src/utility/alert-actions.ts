@@ -0,0 +1,38 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import axios from "axios";
+
+export type AlertActionKind = 'ack' | 'shelve' | 'close' | 'note';
+
+export type AlertActionRequest = {
+    action: AlertActionKind;
+    hours?: number;
+    text?: string;
+};
+
+/**
+ * Runs an alert action through the backend, which calls Alerta and records
+ * who did it. `token` is the route token the app was opened with.
+ */
+export async function performAlertAction(apiBase: string, alertId: string, request: AlertActionRequest, token: string) {
+    const res = await axios.post<{ id: string; action: AlertActionKind; status: string; auditId: string | null }>(
+        `${apiBase}/alerts/${encodeURIComponent(alertId)}/action`,
+        request,
+        { headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` } },
+    );
+    return res.data;
+}
@@ -0,0 +1,136 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export type SeriesPoint = { t: number | string; v: number };
+
+/** One asset × metric series as returned by the backend in `charts`. */
+export type ChartSeries = {
+    series: SeriesPoint[];
+    meta: {
+        assetUrn: string;
+        metric?: string;
+        unit?: string | null;
+        // the backend only read the newest part of the window
+        truncated?: boolean;
+        // the query failed part-way; the series may be partial
+        error?: string;
+    };
+    stats?: { anomalies: Array<{ t: string }> } | null;
+};
+
+const PALETTE = {
+    dark: ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#06b6d4', '#ec4899'],
+    white: ['#0ea5e9', '#d97706', '#059669', '#dc2626', '#7c3aed', '#db2777'],
+};
+
+// "urn:ifric:ifx-eur-nld-ast-3d8f…" is too long for a legend entry
+const shortAsset = (urn: string) => {
+    const tail = urn.split(':').pop() ?? urn;
+    return tail.length > 16 ? `…${tail.slice(-12)}` : tail;
+};
+
+/** One line per series the backend could not load in full. */
+export function chartNotes(charts: ChartSeries[]): string[] {
+    return charts.flatMap(c => {
+        const name = `${c.meta.metric ?? 'value'} · ${shortAsset(c.meta.assetUrn)}`;
+        if (c.meta.error) return [`${name}: data incomplete, the query failed`];
+        if (c.meta.truncated) return [`${name}: window too large, showing the newest data only`];
+        return [];
+    });
+}
+
+/**
+ * Builds Chart.js data and options for one or more series: timestamps are
+ * merged onto a shared axis (gaps stay empty) and each distinct unit gets its
+ * own y-axis, the first on the left and the second on the right.
+ */
+export function buildChart(charts: ChartSeries[], theme: 'dark' | 'white') {
+    const labels = [...new Set(charts.flatMap(c => c.series.map(p => String(p.t))))]
+        .sort((a, b) => (Date.parse(a) || Number(a)) - (Date.parse(b) || Number(b)));
+
+    const units = [...new Set(charts.map(c => c.meta.unit ?? ''))];
+    const axisId = (unit?: string | null) => {
+        const i = units.indexOf(unit ?? '');
+        return i <= 0 ? 'y' : `y${i}`;
+    };
+    const assetCount = new Set(charts.map(c => c.meta.assetUrn)).size;
+    const colors = PALETTE[theme];
+
+    const datasets = charts.map((c, i) => {
+        const byTime = new Map(c.series.map(p => [String(p.t), p.v]));
+        const anomalies = new Set(c.stats?.anomalies.map(a => a.t) ?? []);
+        const name = [
+            c.meta.metric ?? 'value',
+            assetCount > 1 ? shortAsset(c.meta.assetUrn) : '',
+        ].filter(Boolean).join(' · ');
+        const color = colors[i % colors.length];
+        return {
+            label: c.meta.unit ? `${name} (${c.meta.unit})` : name,
+            data: labels.map(t => byTime.get(t) ?? null),
+            yAxisID: axisId(c.meta.unit),
+            borderWidth: 2,
+            fill: false,
+            tension: 0.25,
+            spanGaps: true,
+            borderColor: color,
+            // outliers found by the backend are drawn larger and red
+            pointBackgroundColor: labels.map(t => anomalies.has(t) ? '#ef4444' : color),
+            pointRadius: labels.map(t => anomalies.has(t) ? 5 : 2),
+        };
+    });
+
+    const tickColor = '#9ca3af';
+    const gridColor = 'rgba(255,255,255,0.06)';
+    const yAxes = Object.fromEntries(units.map((unit, i) => [
+        i === 0 ? 'y' : `y${i}`,
+        {
+            position: i % 2 === 0 ? 'left' : 'right',
+            display: i < 2,
+            title: { display: !!unit, text: unit, color: tickColor },
+            ticks: { color: tickColor },
+            // only the primary axis draws grid lines
+            grid: { color: gridColor, drawOnChartArea: i === 0 },
+        },
+    ]));
+
+    const options = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+            legend: {
+                labels: { color: '#e5e7eb', boxWidth: 12, boxHeight: 12 },
+            },
+            tooltip: {
+                backgroundColor: '#0b0b0b',
+                titleColor: '#f3f4f6',
+                bodyColor: '#e5e7eb',
+                borderColor: '#1f2937',
+                borderWidth: 1,
+            },
+        },
+        scales: {
+            x: {
+                ticks: { color: tickColor, autoSkip: true, maxRotation: 0 },
+                grid: { color: gridColor },
+            },
+            ...yAxes,
+        },
+        elements: { point: { radius: 2 } },
+    };
+
+    return { data: { labels, datasets }, options };
+}
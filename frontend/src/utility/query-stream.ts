@@ -0,0 +1,89 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+export type QueryStreamHandlers = {
+    onTool?: (data: { name: string; args: Record<string, any> }) => void;
+    onRetrieval?: (data: { sources: number }) => void;
+    onToken?: (delta: string) => void;
+    onSources?: (sources: any[]) => void;
+    onDone?: (data: Record<string, any>) => void;
+    onError?: (message: string) => void;
+};
+
+/**
+ * POSTs to the backend's `/query/stream` endpoint and dispatches the
+ * Server-Sent Events it returns. EventSource only supports GET, so the
+ * stream is read from the fetch body instead. `token` is needed when the
+ * body names a `sessionId`.
+ */
+export async function streamQuery(url: string, body: unknown, handlers: QueryStreamHandlers, token?: string | null): Promise<void> {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+    });
+    if (!res.ok || !res.body) {
+        throw new Error(`request failed (${res.status})`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (block: string) => {
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+        }
+        if (!dataLines.length) return;
+
+        let data: any;
+        try {
+            data = JSON.parse(dataLines.join('\n'));
+        } catch {
+            return;
+        }
+
+        switch (event) {
+            case 'tool': handlers.onTool?.(data); break;
+            case 'retrieval': handlers.onRetrieval?.(data); break;
+            case 'token': handlers.onToken?.(data.delta ?? ''); break;
+            case 'sources': handlers.onSources?.(data.sources ?? []); break;
+            case 'done': handlers.onDone?.(data); break;
+            case 'error': handlers.onError?.(data.message ?? 'request failed'); break;
+        }
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let sep = buffer.indexOf('\n\n');
+        while (sep >= 0) {
+            dispatch(buffer.slice(0, sep));
+            buffer = buffer.slice(sep + 2);
+            sep = buffer.indexOf('\n\n');
+        }
+    }
+    if (buffer.trim()) dispatch(buffer);
+}
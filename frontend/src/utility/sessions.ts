@@ -0,0 +1,67 @@
+//
+// Copyright (c) 2025 Industry Fusion Foundation
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//   http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//
+
+import axios from "axios";
+
+// answer language of a conversation; 'auto' follows each question
+export type LanguagePreference = 'auto' | 'en' | 'de' | 'nl';
+
+export type SessionSummary = {
+    id: string;
+    title: string;
+    vectorStoreIds: string[];
+    language: LanguagePreference;
+    createdAt: string;
+    updatedAt: string;
+    turnCount: number;
+};
+
+export type SessionTurn = {
+    role: 'user' | 'assistant';
+    content: string;
+    at: string;
+    // charts, alerts and alert groups that came with an assistant reply
+    data?: Record<string, any>;
+};
+
+export type ChatSession = SessionSummary & { turns: SessionTurn[] };
+
+const auth = (token: string) => ({ headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` } });
+
+/** Conversations stored for the user behind `token`, most recent first. */
+export async function listSessions(apiBase: string, token: string) {
+    const res = await axios.get<SessionSummary[]>(`${apiBase}/sessions`, auth(token));
+    return res.data;
+}
+
+export async function createSession(apiBase: string, token: string, vectorStoreIds: string[] = [], language: LanguagePreference = 'auto') {
+    const res = await axios.post<SessionSummary>(`${apiBase}/sessions`, { vectorStoreIds, language }, auth(token));
+    return res.data;
+}
+
+export async function updateSession(apiBase: string, id: string, token: string, changes: { title?: string; language?: LanguagePreference }) {
+    const res = await axios.patch<SessionSummary>(`${apiBase}/sessions/${encodeURIComponent(id)}`, changes, auth(token));
+    return res.data;
+}
+
+export async function getSession(apiBase: string, id: string, token: string) {
+    const res = await axios.get<ChatSession>(`${apiBase}/sessions/${encodeURIComponent(id)}`, auth(token));
+    return res.data;
+}
+
+export async function deleteSession(apiBase: string, id: string, token: string) {
+    await axios.delete(`${apiBase}/sessions/${encodeURIComponent(id)}`, auth(token));
+}